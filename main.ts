@@ -1,28 +1,86 @@
-import { App, TFile, Plugin, Notice, PluginSettingTab, Setting, FuzzySuggestModal, TFolder, Modal } from 'obsidian';
-import { BacklinkMetadataSettings, DEFAULT_SETTINGS, Rule } from './src/types';
+import { App, TFile, TAbstractFile, CachedMetadata, Plugin, Notice, PluginSettingTab, Setting, FuzzySuggestModal, TFolder, Modal, normalizePath, moment } from 'obsidian';
+import { BacklinkMetadataSettings, DEFAULT_SETTINGS, Rule, CriteriaNode, CriteriaGroup, PropertyCondition, ConditionOperator, CONDITION_OPERATORS, LinkContextFilter, JournalOperation, PlannedChange, PlannedSource, DateMergeMode, CopyMergeMode, SnippetScope, BulkRunKind, BulkCheckpoint, BulkScope } from './src/types';
 import { DateExtractor } from './src/utils/date-extractor';
+import { TemplateRenderer } from './src/utils/template-renderer';
+import { DEFAULT_SNIPPET_LENGTH } from './src/utils/snippet-extractor';
 import { RuleEngine } from './src/engine/rule-engine';
 import { BacklinkProcessor } from './src/processor/backlink-processor';
+import { WriteScheduler } from './src/processor/write-scheduler';
+import { ChangePreviewModal } from './src/ui/change-preview-modal';
+import { UndoJournal } from './src/history/undo-journal';
+import { AuditLog } from './src/history/audit-log';
+import { AuditLogModal } from './src/ui/audit-log-modal';
+import { BulkProgressModal } from './src/ui/bulk-progress-modal';
+import { BulkScopeModal } from './src/ui/bulk-scope-modal';
+import { BulkRunControl } from './src/processor/bulk-run';
+import { BacklinkIndex, hashContent } from './src/cache/backlink-index';
 
 export default class BacklinkMetadataPlugin extends Plugin {
     settings: BacklinkMetadataSettings;
     private dateExtractor: DateExtractor;
+    private templateRenderer: TemplateRenderer;
     private ruleEngine: RuleEngine;
     private processor: BacklinkProcessor;
-    private fileContentCache: Map<string, { contentHash: number; links: string[] }> = new Map();
+    private journal: UndoJournal;
+    private auditLog: AuditLog;
+    private backlinkIndex: BacklinkIndex;
+    private reconcileIntervalId: number | null = null;
+    private reconcileInProgress = false;
+    private activeBulkRun: { control: BulkRunControl; modal: BulkProgressModal } | null = null;
 
     async onload() {
         await this.loadSettings();
 
         // Initialize components with settings
         this.dateExtractor = new DateExtractor(this.app, this.settings.options.dateFormat);
+        this.templateRenderer = new TemplateRenderer(this.settings.options.dateFormat);
         this.ruleEngine = new RuleEngine(this.app);
         this.ruleEngine.setLogging(this.settings.options.enableLogging);
-        this.processor = new BacklinkProcessor(this.app, this.dateExtractor, this.ruleEngine);
+        this.ruleEngine.setOptOutProperty(this.settings.options.optOutProperty);
+        this.processor = new BacklinkProcessor(this.app, this.dateExtractor, this.ruleEngine, this.templateRenderer);
+        this.processor.getCascadeGuard().setMaxCascadeUpdates(this.settings.options.maxCascadeUpdates);
+        this.processor.getCascadeGuard().setIssueHandler(() => {
+            new Notice('Backlink metadata: stopped a chain of cascading updates. Run "Validate metadata update rules" for details.');
+        });
+
+        // One scheduler for every frontmatter write so writes to a note never overlap
+        const writeScheduler = new WriteScheduler(this.app);
+        this.processor.setWriteScheduler(writeScheduler);
+
+        this.journal = new UndoJournal(this.app, this.getPluginFilePath('undo-journal.json'), writeScheduler);
+        await this.journal.load();
+        this.processor.setJournal(this.journal);
+
+        this.auditLog = new AuditLog(this.app, this.getPluginFilePath('audit-log.jsonl'));
+        this.auditLog.configure(this.settings.options.auditLogEnabled, this.settings.options.auditLogNotePath);
+        this.processor.setAuditLog(this.auditLog);
+
+        this.backlinkIndex = new BacklinkIndex(this.app, this.getPluginFilePath('backlink-index.json'));
+        await this.backlinkIndex.load();
+        this.processor.setBacklinkIndex(this.backlinkIndex);
+
+        // Notes changed while Obsidian was closed are only re-parsed by the initial metadata
+        // resolve, so catching up before it would act on (and record) their stale links.
+        // When the plugin is enabled mid-session that resolve has already happened.
+        if (this.app.workspace.layoutReady) {
+            this.app.workspace.onLayoutReady(() => this.catchUpChangedSources());
+        } else {
+            const resolvedRef = this.app.metadataCache.on('resolved', () => {
+                this.app.metadataCache.offref(resolvedRef);
+                this.app.workspace.onLayoutReady(() => this.catchUpChangedSources());
+            });
+            this.registerEvent(resolvedRef);
+        }
 
         // Register event handlers using onLayoutReady for better performance
         this.app.workspace.onLayoutReady(() => {
             this.registerEventHandlers();
+            this.scheduleReconcile();
+
+            const checkpoint = this.settings.bulkCheckpoint;
+            if (checkpoint) {
+                new Notice(`"${checkpoint.label}" was interrupted at ${checkpoint.processed}/${checkpoint.total} files. Run "Resume interrupted bulk run" to continue.`);
+            }
         });
 
         // Add commands
@@ -33,8 +91,19 @@ export default class BacklinkMetadataPlugin extends Plugin {
     }
 
     onunload() {
+        // Pause rather than cancel, so a writing run's checkpoint survives for resuming
+        this.activeBulkRun?.control.pause();
         this.processor?.cancelAllProcessing();
-        this.fileContentCache.clear();
+        this.auditLog?.flush();
+        this.backlinkIndex?.flush();
+    }
+
+    /**
+     * Path of a file stored alongside the plugin's data.json.
+     */
+    private getPluginFilePath(name: string): string {
+        const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+        return normalizePath(`${dir}/${name}`);
     }
 
     /**
@@ -42,8 +111,33 @@ export default class BacklinkMetadataPlugin extends Plugin {
      */
     private syncComponentSettings(): void {
         this.dateExtractor?.setDateFormat(this.settings.options.dateFormat);
+        this.templateRenderer?.setDateFormat(this.settings.options.dateFormat);
+        this.auditLog?.configure(this.settings.options.auditLogEnabled, this.settings.options.auditLogNotePath);
         this.ruleEngine?.setLogging(this.settings.options.enableLogging);
+        this.ruleEngine?.setOptOutProperty(this.settings.options.optOutProperty);
         this.ruleEngine?.clearRegexCache();
+        this.processor?.getCascadeGuard().setMaxCascadeUpdates(this.settings.options.maxCascadeUpdates);
+        if (this.app.workspace.layoutReady) {
+            this.scheduleReconcile();
+        }
+    }
+
+    /**
+     * (Re)start the scheduled reconcile timer from the current interval setting.
+     */
+    private scheduleReconcile(): void {
+        if (this.reconcileIntervalId !== null) {
+            window.clearInterval(this.reconcileIntervalId);
+            this.reconcileIntervalId = null;
+        }
+
+        const minutes = this.settings.options.reconcileIntervalMinutes;
+        if (minutes > 0) {
+            this.reconcileIntervalId = window.setInterval(() => {
+                this.reconcileAll(true);
+            }, minutes * 60 * 1000);
+            this.registerInterval(this.reconcileIntervalId);
+        }
     }
 
     private registerEventHandlers() {
@@ -59,24 +153,74 @@ export default class BacklinkMetadataPlugin extends Plugin {
             })
         );
 
+        // Notes are handled once the metadata cache drops them, which hands over their last metadata
+        this.registerEvent(
+            this.app.metadataCache.on('deleted', (file: TFile, prevCache: CachedMetadata | null) => {
+                this.handleFileDelete(file, prevCache);
+            })
+        );
+
+        this.registerEvent(
+            this.app.vault.on('delete', (file: TAbstractFile) => {
+                if (!(file instanceof TFile) || file.extension !== 'md') {
+                    this.backlinkIndex.remove(file.path);
+                }
+            })
+        );
+
+        this.registerEvent(
+            this.app.workspace.on('file-menu', (menu, file) => {
+                if (file instanceof TFolder) {
+                    menu.addItem(item => item
+                        .setTitle('Update backlink metadata in folder')
+                        .setIcon('refresh-cw')
+                        .onClick(() => this.runBulk('bulk-update', undefined, { folder: file.path }))
+                    );
+                } else if (file instanceof TFile && file.extension === 'md') {
+                    menu.addItem(item => item
+                        .setTitle('Update backlink metadata from note')
+                        .setIcon('refresh-cw')
+                        .onClick(() => this.runBulk('bulk-update', undefined, { paths: [file.path] }))
+                    );
+                    menu.addItem(item => item
+                        .setTitle('Pull backlink metadata into note')
+                        .setIcon('download')
+                        .onClick(() => this.pullIntoNote(file))
+                    );
+                }
+            })
+        );
+
         this.registerEvent(
-            this.app.vault.on('delete', (file: TFile) => {
-                this.handleFileDelete(file);
+            this.app.workspace.on('files-menu', (menu, files) => {
+                const paths = this.collectMarkdownPaths(files);
+                if (paths.length === 0) return;
+                menu.addItem(item => item
+                    .setTitle(`Update backlink metadata from ${paths.length} notes`)
+                    .setIcon('refresh-cw')
+                    .onClick(() => this.runBulk('bulk-update', undefined, { paths }))
+                );
             })
         );
     }
 
     /**
-     * Simple string hash for content comparison (avoids storing full content).
+     * Markdown file paths in a file explorer selection, expanding selected folders
      */
-    private hashContent(content: string): number {
-        let hash = 0;
-        for (let i = 0; i < content.length; i++) {
-            const chr = content.charCodeAt(i);
-            hash = ((hash << 5) - hash) + chr;
-            hash |= 0; // Convert to 32bit integer
+    private collectMarkdownPaths(files: TAbstractFile[]): string[] {
+        const paths = new Set<string>();
+        for (const file of files) {
+            if (file instanceof TFile && file.extension === 'md') {
+                paths.add(file.path);
+            } else if (file instanceof TFolder) {
+                for (const markdownFile of this.app.vault.getMarkdownFiles()) {
+                    if (markdownFile.path.startsWith(`${file.path}/`)) {
+                        paths.add(markdownFile.path);
+                    }
+                }
+            }
         }
-        return hash;
+        return Array.from(paths);
     }
 
     private async handleFileModify(file: TFile) {
@@ -84,72 +228,70 @@ export default class BacklinkMetadataPlugin extends Plugin {
             return;
         }
 
+        // Ignore the modify events fired by the plugin's own frontmatter writes
+        if (this.processor.isOwnWrite(file)) {
+            return;
+        }
+
         // Use processor's extractOutgoingLinks to avoid duplicated logic
         const currentContent = await this.app.vault.cachedRead(file);
-        const currentHash = this.hashContent(currentContent);
+        const currentHash = hashContent(currentContent);
         const currentLinks = this.processor.extractOutgoingLinks(file);
 
-        const cached = this.fileContentCache.get(file.path);
-
-        if (cached) {
-            const contentChanged = cached.contentHash !== currentHash;
-            const linksChanged = !this.arraysEqual(cached.links, currentLinks);
-
-            if (!contentChanged) {
+        // Compare against the persisted index, so this works across restarts
+        const entry = this.backlinkIndex.get(file.path);
+        if (entry && this.backlinkIndex.isIndexed(file.path)) {
+            if (entry.contentHash === currentHash) {
                 return;
             }
 
-            if (!linksChanged && currentLinks.length === 0) {
+            const { removed } = this.backlinkIndex.diffLinks(file.path, currentLinks);
+            if (currentLinks.length === 0 && removed.length === 0) {
                 return;
             }
-
-            if (linksChanged) {
-                const newLinks = currentLinks.filter(link => !cached.links.includes(link));
-                const removedLinks = cached.links.filter(link => !currentLinks.includes(link));
-
-                if (newLinks.length === 0 && removedLinks.length === 0) {
-                    this.fileContentCache.set(file.path, { contentHash: currentHash, links: currentLinks });
-                    return;
-                }
-            }
         }
 
-        this.fileContentCache.set(file.path, { contentHash: currentHash, links: currentLinks });
-
-        // Schedule processing with debouncing
+        // Schedule processing with debouncing; links removed since the last run are
+        // retracted from their targets then (when Update on Delete is on)
         this.processor.scheduleProcessing(file, this.settings.rules, this.settings.options);
     }
 
-    private arraysEqual(a: string[], b: string[]): boolean {
-        if (a.length !== b.length) return false;
-
-        const sortedA = [...a].sort();
-        const sortedB = [...b].sort();
-
-        return sortedA.every((val, index) => val === sortedB[index]);
-    }
-
     private async handleFileRename(file: TFile, oldPath: string) {
         if (this.settings.options.enableLogging) {
             console.log(`File renamed: ${oldPath} -> ${file.path}`);
         }
 
-        const cached = this.fileContentCache.get(oldPath);
-        if (cached) {
-            this.fileContentCache.delete(oldPath);
-            this.fileContentCache.set(file.path, cached);
+        this.backlinkIndex.rename(oldPath, file.path);
+
+        // Stored links and history paths would otherwise point at the old name
+        if (file instanceof TFile && file.extension === 'md') {
+            const run = this.processor.forOperation(`Rename ${oldPath} → ${file.path}`, 'rename');
+            await run.rewriteRenamedLinks(oldPath, file.path, this.settings.rules, this.settings.options);
+            await run.commitOperation();
         }
 
         // Route through debounce for consistency (avoids cascade on bulk renames)
-        this.processor.scheduleProcessing(file, this.settings.rules, this.settings.options);
+        this.processor.scheduleProcessing(file, this.settings.rules, this.settings.options, 'rename');
     }
 
-    private async handleFileDelete(file: TFile) {
+    private async handleFileDelete(file: TFile, prevCache: CachedMetadata | null) {
         if (this.settings.options.enableLogging) {
             console.log(`File deleted: ${file.path}`);
         }
 
-        this.fileContentCache.delete(file.path);
+        // The index remembers which targets the deleted note linked to when last processed
+        const entry = this.backlinkIndex.remove(file.path);
+
+        if (!this.settings.options.updateOnDelete || !(file instanceof TFile) || !entry || entry.outgoingLinks.length === 0) {
+            return;
+        }
+        if (!this.shouldProcessFile(file)) {
+            return;
+        }
+
+        const run = this.processor.forOperation(`Delete ${file.path}`, 'delete');
+        await run.cleanupRemovedLinks(file, entry.outgoingLinks, this.settings.rules, this.settings.options, prevCache);
+        await run.commitOperation();
     }
 
     private shouldProcessFile(file: TFile): boolean {
@@ -157,6 +299,11 @@ export default class BacklinkMetadataPlugin extends Plugin {
             return false;
         }
 
+        // The audit log contains copied link values; never treat it as a source
+        if (this.auditLog.isLogFile(file.path)) {
+            return false;
+        }
+
         return this.settings.rules.some(rule => {
             return rule.enabled && this.ruleEngine.matchesSourcePattern(rule, file);
         });
@@ -177,7 +324,9 @@ export default class BacklinkMetadataPlugin extends Plugin {
             callback: async () => {
                 const activeFile = this.app.workspace.getActiveFile();
                 if (activeFile) {
-                    await this.processor.processFile(activeFile, this.settings.rules, this.settings.options);
+                    const run = this.processor.forOperation(`Process ${activeFile.path}`, 'manual');
+                    await run.processFile(activeFile, this.settings.rules, this.settings.options);
+                    await run.commitOperation();
                     new Notice('Current file processed successfully');
                 } else {
                     new Notice('No active file to process');
@@ -185,6 +334,19 @@ export default class BacklinkMetadataPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'pull-current-note',
+            name: 'Update current note from all incoming links',
+            callback: async () => {
+                const activeFile = this.app.workspace.getActiveFile();
+                if (activeFile) {
+                    await this.pullIntoNote(activeFile);
+                } else {
+                    new Notice('No active file to update');
+                }
+            }
+        });
+
         this.addCommand({
             id: 'validate-rules',
             name: 'Validate metadata update rules',
@@ -193,6 +355,61 @@ export default class BacklinkMetadataPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'reconcile-rule',
+            name: 'Reconcile a rule across the vault',
+            callback: () => {
+                new RuleSuggestModal(this.app, this.settings.rules, async (rule) => {
+                    await this.reconcileRules([rule], `Reconciling "${rule.name}"`);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'reconcile-all-rules',
+            name: 'Reconcile all rules across the vault',
+            callback: async () => {
+                await this.reconcileAll(false);
+            }
+        });
+
+        this.addCommand({
+            id: 'undo-last-operation',
+            name: 'Undo last metadata update',
+            callback: async () => {
+                const [last] = this.journal.getOperations();
+                if (!last) {
+                    new Notice('Nothing to undo');
+                    return;
+                }
+                await this.undoOperation(last);
+            }
+        });
+
+        this.addCommand({
+            id: 'undo-operation-from-history',
+            name: 'Undo a metadata update from history',
+            callback: () => {
+                const operations = this.journal.getOperations();
+                if (operations.length === 0) {
+                    new Notice('Nothing to undo');
+                    return;
+                }
+                new OperationSuggestModal(this.app, operations, async (operation) => {
+                    await this.undoOperation(operation);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-audit-log',
+            name: 'Open metadata audit log',
+            callback: async () => {
+                const entries = await this.auditLog.read();
+                new AuditLogModal(this.app, entries).open();
+            }
+        });
+
         this.addCommand({
             id: 'bulk-update-metadata-from-backlinks',
             name: 'Bulk update metadata from backlinks',
@@ -200,34 +417,265 @@ export default class BacklinkMetadataPlugin extends Plugin {
                 await this.bulkUpdateMetadataFromBacklinks();
             }
         });
+
+        this.addCommand({
+            id: 'bulk-update-scoped',
+            name: 'Bulk update metadata from backlinks (choose scope)',
+            callback: () => {
+                new BulkScopeModal(this.app, this.settings.rules, (scope) => {
+                    this.runBulk('bulk-update', undefined, scope);
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'resume-bulk-run',
+            name: 'Resume interrupted bulk run',
+            checkCallback: (checking: boolean) => {
+                const checkpoint = this.settings.bulkCheckpoint;
+                if (!checkpoint || this.activeBulkRun) {
+                    return false;
+                }
+                if (!checking) {
+                    this.runBulk(checkpoint.kind, checkpoint);
+                }
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'show-bulk-run-progress',
+            name: 'Show bulk run progress',
+            checkCallback: (checking: boolean) => {
+                if (!this.activeBulkRun) {
+                    return false;
+                }
+                if (!checking) {
+                    this.activeBulkRun.modal.open();
+                }
+                return true;
+            }
+        });
     }
 
-    private async processAllFiles() {
-        const notice = new Notice('Processing all files...', 0);
+    /**
+     * Pull mode: update a target from every source linking to it and show what changed
+     */
+    private async pullIntoNote(file: TFile) {
+        try {
+            const run = this.processor.forOperation(`Pull into ${file.path}`, 'manual');
+            const changes = await run.reconcileTarget(file, this.settings.rules, this.settings.options);
+            await run.commitOperation();
+
+            if (changes.length === 0) {
+                new Notice(`${file.basename} is already up to date with its backlinks`);
+                return;
+            }
+
+            const format = (value: any) => {
+                if (value === undefined) return '(none)';
+                const text = typeof value === 'string' ? value : JSON.stringify(value);
+                return text.length > 80 ? text.slice(0, 80) + '…' : text;
+            };
+            new Notice(
+                `Updated ${file.basename}:\n` +
+                changes.map(change => `${change.field}: ${format(change.before)} → ${format(change.after)}`).join('\n'),
+                10000
+            );
+        } catch (error) {
+            new Notice(`Error updating ${file.basename}: ${error instanceof Error ? error.message : String(error)}`);
+            console.error('Error pulling backlink metadata:', error);
+        }
+    }
+
+    /**
+     * Process source notes changed while Obsidian was closed (sync, git, mobile),
+     * found by comparing each note's mtime with when it was last processed.
+     * Notes never processed are only caught up if created after the last processing,
+     * so a fresh install doesn't reprocess the whole vault.
+     */
+    private async catchUpChangedSources() {
+        const lastActivity = this.backlinkIndex.getLastActivity();
+        if (lastActivity === 0) {
+            return;
+        }
+
+        const candidates = this.app.vault.getMarkdownFiles().filter(file => {
+            if (!this.shouldProcessFile(file)) return false;
+            const entry = this.backlinkIndex.get(file.path);
+            return this.backlinkIndex.isIndexed(file.path) && entry
+                ? file.stat.mtime > entry.lastUpdated
+                : file.stat.ctime > lastActivity;
+        });
+
+        if (candidates.length === 0) {
+            return;
+        }
+
+        const statusBarEl = this.addStatusBarItem();
+        const run = this.processor.forOperation(`Catch up ${candidates.length} changed note(s)`, 'modify');
         let processed = 0;
+        let updated = 0;
+
+        try {
+            for (const file of candidates) {
+                statusBarEl.setText(`Backlink metadata: catching up ${processed + 1}/${candidates.length}`);
+
+                // mtime can change without content changes (e.g. sync touching files)
+                const entry = this.backlinkIndex.get(file.path);
+                const content = await this.app.vault.cachedRead(file);
+                if (entry?.contentHash !== hashContent(content)) {
+                    await run.processFile(file, this.settings.rules, this.settings.options, { incremental: true });
+                    updated++;
+                }
+                processed++;
+
+                // Yield to UI every batch so startup stays responsive
+                if (processed % 20 === 0) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+            }
+
+            await run.commitOperation();
+            if (this.settings.options.enableLogging) {
+                console.log(`Startup catch-up: processed ${updated} of ${candidates.length} changed note(s)`);
+            }
+        } catch (error) {
+            console.error('Error catching up changed notes:', error);
+        } finally {
+            statusBarEl.remove();
+        }
+    }
+
+    private async undoOperation(operation: JournalOperation) {
+        try {
+            const result = await this.journal.undo(operation);
+            if (result.conflicts.length > 0) {
+                new Notice(
+                    `Undid ${result.restored} change(s) from "${operation.label}". ` +
+                    `Skipped ${result.conflicts.length} field(s) edited since: ` +
+                    result.conflicts.slice(0, 5).map(entry => `${entry.filePath} → ${entry.field}`).join(', ') +
+                    (result.conflicts.length > 5 ? '…' : '')
+                );
+            } else {
+                new Notice(`Undid ${result.restored} change(s) from "${operation.label}"`);
+            }
+
+            if (this.settings.options.enableLogging) {
+                console.log('Undo result:', operation, result);
+            }
+        } catch (error) {
+            new Notice(`Error undoing changes: ${error instanceof Error ? error.message : String(error)}`);
+            console.error('Error undoing operation:', error);
+        }
+    }
+
+    /**
+     * Show a dry run's planned changes and apply the ones the user keeps selected.
+     */
+    private showPlannedChanges(dryRun: BacklinkProcessor, title: string) {
+        const changes = dryRun.getPlannedChanges();
+        new ChangePreviewModal(this.app, title, changes, (selected) => {
+            if (selected.length === 0) {
+                new Notice('No changes applied');
+                return;
+            }
+            this.applyPlannedChanges(selected, dryRun.getPlannedSources(), title);
+        }).open();
+    }
+
+    /**
+     * Apply previewed changes as a bulk run: with progress, pause and cancel.
+     * The plan only lives in memory, so the run can't be resumed, but every pause
+     * commits the changes made so far to the undo journal.
+     */
+    private async applyPlannedChanges(selected: PlannedChange[], sources: PlannedSource[], title: string) {
+        if (this.activeBulkRun) {
+            new Notice('A bulk run is already in progress');
+            this.activeBulkRun.modal.open();
+            return;
+        }
+
+        const control = new BulkRunControl();
+        const modal = new BulkProgressModal(this.app, `Apply: ${title}`, control);
+        const run = this.processor.forOperation(title, 'bulk');
+        control.setPauseHandler(() => {
+            run.checkpointOperation();
+        });
+        this.activeBulkRun = { control, modal };
+        modal.open();
 
         try {
-            await this.processor.processAllFiles(
-                this.settings.rules,
+            const result = await run.applyPlannedChanges(selected, sources, (current, total, filePath) => {
+                modal.setProgress(current, total, filePath);
+            }, control);
+            await run.commitOperation();
+            modal.close();
+
+            const summary = result.skipped > 0
+                ? `Applied ${result.applied} changes; skipped ${result.skipped} edited since the preview`
+                : `Applied ${result.applied} changes`;
+            new Notice(control.isCancelled() ? `Cancelled. ${summary}. Changes made so far can be undone.` : summary);
+        } catch (error) {
+            await run.commitOperation();
+            modal.close();
+            new Notice(`Error applying changes: ${error instanceof Error ? error.message : String(error)}`);
+            console.error('Error applying planned changes:', error);
+        } finally {
+            this.activeBulkRun = null;
+        }
+    }
+
+    /**
+     * Reconcile every enabled rule. Quiet runs (scheduled) only report when something changed.
+     */
+    private async reconcileAll(quiet: boolean) {
+        await this.reconcileRules(this.settings.rules, 'Reconciling all rules', quiet);
+    }
+
+    private async reconcileRules(rules: Rule[], label: string, quiet = false) {
+        if (this.reconcileInProgress) {
+            if (!quiet) {
+                new Notice('A reconcile is already running');
+            }
+            return;
+        }
+
+        this.reconcileInProgress = true;
+        const notice = quiet ? null : new Notice(`${label}...`, 0);
+
+        try {
+            const run = this.processor.forOperation(label, quiet ? 'bulk' : 'manual');
+            const updated = await run.reconcileRules(
+                rules,
                 this.settings.options,
-                (current, totalFiles) => {
-                    processed = current;
-                    notice.setMessage(`Processing files: ${current}/${totalFiles}`);
+                (current, total) => {
+                    notice?.setMessage(`${label}: ${current}/${total} notes`);
                 }
             );
 
-            notice.hide();
-            new Notice(`Successfully processed ${processed} files`);
+            await run.commitOperation();
+            notice?.hide();
+            if (!quiet || updated > 0) {
+                new Notice(`Reconcile complete: updated ${updated} note(s)`);
+            }
         } catch (error) {
-            notice.hide();
-            new Notice(`Error processing files: ${error instanceof Error ? error.message : String(error)}`);
-            console.error('Error processing all files:', error);
+            notice?.hide();
+            new Notice(`Error during reconcile: ${error instanceof Error ? error.message : String(error)}`);
+            console.error('Error reconciling rules:', error);
+        } finally {
+            this.reconcileInProgress = false;
         }
     }
 
     private validateRules() {
         const validation = this.ruleEngine.validateRuleSet(this.settings.rules);
 
+        // Cycles and cascade limit hits seen at runtime
+        for (const issue of this.processor.getCascadeGuard().getIssues()) {
+            validation.warnings.push(issue);
+        }
+
         if (validation.isValid) {
             new Notice('All rules are valid');
         } else {
@@ -243,54 +691,192 @@ export default class BacklinkMetadataPlugin extends Plugin {
         }
     }
 
+    private async processAllFiles() {
+        await this.runBulk('process-all');
+    }
+
     private async bulkUpdateMetadataFromBacklinks() {
-        const notice = new Notice('Scanning backlinks from source files...', 0);
+        await this.runBulk('bulk-update');
+    }
 
-        try {
-            const allFiles = this.app.vault.getMarkdownFiles();
-
-            // Deduplicate by path, not object reference
-            const seenPaths = new Set<string>();
-            const uniqueSourceFiles: TFile[] = [];
-
-            for (const rule of this.settings.rules) {
-                if (rule.enabled) {
-                    for (const file of allFiles) {
-                        if (!seenPaths.has(file.path) && this.ruleEngine.matchesSourcePattern(rule, file)) {
-                            seenPaths.add(file.path);
-                            uniqueSourceFiles.push(file);
-                        }
-                    }
-                }
-            }
+    /**
+     * Rules a bulk run applies (all of them, or the scope's subset)
+     */
+    private getScopedRules(scope?: BulkScope): Rule[] {
+        const ruleIds = scope?.ruleIds;
+        return ruleIds ? this.settings.rules.filter(rule => ruleIds.includes(rule.id)) : this.settings.rules;
+    }
 
-            notice.setMessage(`Found ${uniqueSourceFiles.length} source files, scanning backlinks...`);
+    /**
+     * Files a bulk run covers, in path order (so a checkpoint's lastPath marks progress)
+     */
+    private getBulkFiles(kind: BulkRunKind, scope?: BulkScope): TFile[] {
+        const rules = this.getScopedRules(scope);
+        let files = this.app.vault.getMarkdownFiles();
+
+        if (kind === 'bulk-update') {
+            files = files.filter(file => rules.some(rule => rule.enabled && this.ruleEngine.matchesSourcePattern(rule, file)));
+        }
+        if (scope?.paths) {
+            const paths = new Set(scope.paths);
+            files = files.filter(file => paths.has(file.path));
+        }
+        if (scope?.folder && scope.folder !== '/') {
+            const prefix = `${scope.folder}/`;
+            files = files.filter(file => file.path.startsWith(prefix));
+        }
+        if (scope?.dateFrom || scope?.dateTo) {
+            files = files.filter(file => {
+                const date = moment(this.dateExtractor.extractDate(file), this.settings.options.dateFormat);
+                if (!date.isValid()) return false;
+                if (scope.dateFrom && date.isBefore(scope.dateFrom, 'day')) return false;
+                if (scope.dateTo && date.isAfter(scope.dateTo, 'day')) return false;
+                return true;
+            });
+        }
 
-            let processedCount = 0;
-            const BATCH_SIZE = 20;
+        return files.sort((a, b) => a.path.localeCompare(b.path));
+    }
 
-            for (const sourceFile of uniqueSourceFiles) {
-                try {
-                    await this.processor.processFile(sourceFile, this.settings.rules, this.settings.options);
-                    processedCount++;
-                } catch (error) {
-                    console.warn(`Error processing source file ${sourceFile.path}:`, error);
-                }
+    /**
+     * Short description of a scope for titles and notices
+     */
+    private describeScope(scope: BulkScope): string {
+        const parts: string[] = [];
+        if (scope.ruleIds) {
+            parts.push(this.getScopedRules(scope).map(rule => rule.name).join(', '));
+        }
+        if (scope.folder) parts.push(scope.folder);
+        if (scope.dateFrom || scope.dateTo) parts.push(`${scope.dateFrom ?? '…'} → ${scope.dateTo ?? '…'}`);
+        if (scope.paths) parts.push(scope.paths.length === 1 ? scope.paths[0] : `${scope.paths.length} selected files`);
+        return parts.join(' · ');
+    }
 
-                // Yield to UI every batch
-                if (processedCount % BATCH_SIZE === 0) {
-                    notice.setMessage(`Processing: ${processedCount}/${uniqueSourceFiles.length} source files...`);
-                    await new Promise(resolve => setTimeout(resolve, 0));
+    /**
+     * Run a bulk command behind a progress modal with pause, resume and cancel.
+     * Writing runs checkpoint to plugin data every batch so they can resume after a restart;
+     * previews can't (their planned changes live in memory), so they always start over.
+     */
+    private async runBulk(kind: BulkRunKind, resumeFrom?: BulkCheckpoint, scope?: BulkScope) {
+        if (this.activeBulkRun) {
+            new Notice('A bulk run is already in progress');
+            this.activeBulkRun.modal.open();
+            return;
+        }
+
+        scope = resumeFrom?.scope ?? scope;
+        const baseLabel = kind === 'process-all' ? 'Process all files' : 'Bulk update from backlinks';
+        const scopeLabel = scope ? this.describeScope(scope) : '';
+        const label = resumeFrom?.label ?? (scopeLabel ? `${baseLabel} (${scopeLabel})` : baseLabel);
+        const rules = this.getScopedRules(scope);
+        const preview = this.settings.options.previewBulkOperations && !resumeFrom;
+        let files = this.getBulkFiles(kind, scope);
+        if (resumeFrom) {
+            files = files.filter(file => file.path.localeCompare(resumeFrom.lastPath) > 0);
+        }
+        if (files.length === 0 && !resumeFrom) {
+            new Notice(`${label}: no source files in scope`);
+            return;
+        }
+
+        const offset = resumeFrom?.processed ?? 0;
+        const total = offset + files.length;
+        const control = new BulkRunControl();
+        const modal = new BulkProgressModal(this.app, preview ? `Preview: ${label}` : label, control);
+        this.activeBulkRun = { control, modal };
+        modal.open();
+
+        const runner = preview
+            ? this.processor.createDryRun()
+            : this.processor.forOperation(resumeFrom ? `${label} (resumed)` : label, 'bulk');
+        const BATCH_SIZE = 20;
+
+        // The checkpoint and the undo journal are saved together, so a resumed run neither
+        // repeats files nor loses the undo record of those already done
+        let progress: BulkCheckpoint | null = null;
+        const checkpoint = async () => {
+            if (preview || !progress) {
+                return;
+            }
+            await runner.checkpointOperation();
+            await this.saveBulkCheckpoint(progress);
+        };
+        control.setPauseHandler(() => {
+            checkpoint();
+        });
+
+        try {
+            const processed = await runner.processFiles(files, rules, this.settings.options, async (current, _count, file) => {
+                modal.setProgress(offset + current, total, file.path);
+                progress = {
+                    kind,
+                    label,
+                    scope,
+                    lastPath: file.path,
+                    processed: offset + current,
+                    total,
+                    updatedAt: new Date().toISOString()
+                };
+                if (current % BATCH_SIZE === 0 || control.isPaused()) {
+                    await checkpoint();
                 }
+            }, control, { partialRules: !!scope?.ruleIds });
+
+            await runner.commitOperation();
+            await this.saveBulkCheckpoint(null);
+            modal.close();
+
+            if (control.isCancelled()) {
+                new Notice(preview
+                    ? 'Preview cancelled'
+                    : `${label} cancelled after ${offset + processed}/${total} files. Changes made so far can be undone.`);
+            } else if (preview) {
+                this.showPlannedChanges(runner, `${label}: ${processed} files scanned`);
+            } else {
+                new Notice(`${label} complete: processed ${offset + processed} files`);
             }
+        } catch (error) {
+            await runner.commitOperation();
+            modal.close();
+            new Notice(`Error during ${label.toLowerCase()}: ${error instanceof Error ? error.message : String(error)}`);
+            console.error(`Error in bulk run (${kind}):`, error);
+        } finally {
+            this.activeBulkRun = null;
+        }
+    }
+
+    /**
+     * Save (or clear, with null) the checkpoint of the running bulk run
+     */
+    private async saveBulkCheckpoint(checkpoint: BulkCheckpoint | null) {
+        if (!checkpoint && !this.settings.bulkCheckpoint) {
+            return;
+        }
+        this.settings.bulkCheckpoint = checkpoint;
+        await this.saveData(this.settings);
+    }
 
-            notice.hide();
-            new Notice(`Bulk update complete: processed ${processedCount} source files`);
+    /**
+     * Render a rule's value template against a sample source note.
+     * Prefers the active file when it matches the rule's source pattern.
+     */
+    renderTemplatePreview(rule: Rule): { sourcePath: string; value: any } | { error: string } {
+        const activeFile = this.app.workspace.getActiveFile();
+        const sampleFile = activeFile && this.ruleEngine.matchesSourcePattern(rule, activeFile)
+            ? activeFile
+            : this.app.vault.getMarkdownFiles().find(file => this.ruleEngine.matchesSourcePattern(rule, file));
+
+        if (!sampleFile) {
+            return { error: 'No note matches the source pattern' };
+        }
 
+        try {
+            return {
+                sourcePath: sampleFile.path,
+                value: this.processor.renderTemplatePreview(rule, sampleFile)
+            };
         } catch (error) {
-            notice.hide();
-            new Notice(`Error during bulk update: ${error instanceof Error ? error.message : String(error)}`);
-            console.error('Error in bulkUpdateMetadataFromBacklinks:', error);
+            return { error: error instanceof Error ? error.message : String(error) };
         }
     }
 
@@ -304,6 +890,9 @@ export default class BacklinkMetadataPlugin extends Plugin {
                 ...(saved?.options || {}),
             },
         };
+
+        // Migrate legacy single targetTag/targetFolder rules into criteria trees
+        this.settings.rules = this.settings.rules.map(rule => RuleEngine.migrateRule(rule));
     }
 
     async saveSettings() {
@@ -353,46 +942,126 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
             );
 
         new Setting(containerEl)
-            .setName('Update on delete')
-            .setDesc('Clean up metadata when links are removed')
+            .setName('Update on delete')
+            .setDesc('Clean up metadata when links are removed or source notes are deleted')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.options.updateOnDelete)
+                .onChange(async (value) => {
+                    this.plugin.settings.options.updateOnDelete = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Date format')
+            .setDesc('Format for date values (uses moment.js format)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.plugin.settings.options.dateFormat)
+                .onChange((value) => {
+                    this.plugin.settings.options.dateFormat = value || 'YYYY-MM-DD';
+                    this.debouncedSaveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Debounce delay (ms)')
+            .setDesc('Wait time before processing file changes (100–30000)')
+            .addText(text => {
+                text.setPlaceholder('1000')
+                    .setValue(this.plugin.settings.options.debounceMs.toString())
+                    .onChange((value) => {
+                        const parsed = parseInt(value);
+                        const numValue = isNaN(parsed) ? 1000 : Math.max(100, Math.min(parsed, 30000));
+                        this.plugin.settings.options.debounceMs = numValue;
+                        this.debouncedSaveSettings();
+                    });
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('min', '100');
+                text.inputEl.setAttribute('max', '30000');
+                text.inputEl.setAttribute('inputmode', 'numeric');
+            });
+
+        new Setting(containerEl)
+            .setName('Cascade limit')
+            .setDesc('Updates triggered by the plugin\'s own changes allowed per edit before the chain is stopped (0–100)')
+            .addText(text => {
+                text.setPlaceholder('10')
+                    .setValue(this.plugin.settings.options.maxCascadeUpdates.toString())
+                    .onChange((value) => {
+                        const parsed = parseInt(value);
+                        this.plugin.settings.options.maxCascadeUpdates = isNaN(parsed) ? 10 : Math.max(0, Math.min(parsed, 100));
+                        this.debouncedSaveSettings();
+                    });
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('min', '0');
+                text.inputEl.setAttribute('max', '100');
+                text.inputEl.setAttribute('inputmode', 'numeric');
+            });
+
+        new Setting(containerEl)
+            .setName('Preview bulk operations')
+            .setDesc('Show a dry-run diff of planned changes before bulk commands write to your notes')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.options.previewBulkOperations)
+                .onChange(async (value) => {
+                    this.plugin.settings.options.previewBulkOperations = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Scheduled reconcile (minutes)')
+            .setDesc('Periodically rebuild all rule fields from current backlinks. 0 disables.')
+            .addText(text => {
+                text.setPlaceholder('0')
+                    .setValue(this.plugin.settings.options.reconcileIntervalMinutes.toString())
+                    .onChange((value) => {
+                        const parsed = parseInt(value);
+                        this.plugin.settings.options.reconcileIntervalMinutes = isNaN(parsed) ? 0 : Math.max(0, Math.min(parsed, 1440));
+                        this.debouncedSaveSettings();
+                    });
+                text.inputEl.setAttribute('type', 'number');
+                text.inputEl.setAttribute('min', '0');
+                text.inputEl.setAttribute('max', '1440');
+                text.inputEl.setAttribute('inputmode', 'numeric');
+            });
+
+        new Setting(containerEl)
+            .setName('Opt-out property')
+            .setDesc('Notes with this frontmatter key set to "ignore" are never used as sources or updated as targets. Leave empty to disable.')
+            .addText(text => text
+                .setPlaceholder('backlink-metadata')
+                .setValue(this.plugin.settings.options.optOutProperty)
+                .onChange((value) => {
+                    this.plugin.settings.options.optOutProperty = value.trim();
+                    this.debouncedSaveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Audit log')
+            .setDesc('Record every metadata update (rule, source, target, field, old and new value) to a persistent log')
             .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.options.updateOnDelete)
+                .setValue(this.plugin.settings.options.auditLogEnabled)
                 .onChange(async (value) => {
-                    this.plugin.settings.options.updateOnDelete = value;
+                    this.plugin.settings.options.auditLogEnabled = value;
                     await this.plugin.saveSettings();
                 })
             );
 
         new Setting(containerEl)
-            .setName('Date format')
-            .setDesc('Format for date values (uses moment.js format)')
+            .setName('Audit log note')
+            .setDesc('Vault path to write the log to as JSON lines (e.g., "Logs/backlink-audit.jsonl"). Markdown paths are written as .jsonl so the logged links don\'t become backlinks. Leave empty to keep it in the plugin folder.')
             .addText(text => text
-                .setPlaceholder('YYYY-MM-DD')
-                .setValue(this.plugin.settings.options.dateFormat)
+                .setPlaceholder('audit-log.jsonl in plugin folder')
+                .setValue(this.plugin.settings.options.auditLogNotePath)
                 .onChange((value) => {
-                    this.plugin.settings.options.dateFormat = value || 'YYYY-MM-DD';
+                    this.plugin.settings.options.auditLogNotePath = value.trim();
                     this.debouncedSaveSettings();
                 })
             );
 
-        new Setting(containerEl)
-            .setName('Debounce delay (ms)')
-            .setDesc('Wait time before processing file changes (100–30000)')
-            .addText(text => {
-                text.setPlaceholder('1000')
-                    .setValue(this.plugin.settings.options.debounceMs.toString())
-                    .onChange((value) => {
-                        const parsed = parseInt(value);
-                        const numValue = isNaN(parsed) ? 1000 : Math.max(100, Math.min(parsed, 30000));
-                        this.plugin.settings.options.debounceMs = numValue;
-                        this.debouncedSaveSettings();
-                    });
-                text.inputEl.setAttribute('type', 'number');
-                text.inputEl.setAttribute('min', '100');
-                text.inputEl.setAttribute('max', '30000');
-                text.inputEl.setAttribute('inputmode', 'numeric');
-            });
-
         new Setting(containerEl)
             .setName('Enable logging')
             .setDesc('Enable debug logging to console')
@@ -461,7 +1130,7 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
             id: `rule-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
             name: 'New Rule',
             sourcePattern: 'Daily Notes/*',
-            targetTag: '#example',
+            targetCriteria: { type: 'and', children: [{ type: 'tag', tag: '#example' }] },
             updateField: 'lastSeen',
             valueType: 'date' as const,
             priority: 1,
@@ -536,65 +1205,116 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
                 return textEl;
             });
 
-        // Target Type (Tag or Folder)
+        // Source Exclusions
         new Setting(editorContainer)
-            .setName('Target Type')
-            .addDropdown(dropdown => dropdown
-                .addOption('tag', 'Tag')
-                .addOption('folder', 'Folder')
-                .setValue(rule.targetTag ? 'tag' : 'folder')
-                .onChange((value) => {
-                    if (value === 'tag') {
-                        rule.targetTag = rule.targetFolder || '#example';
-                        rule.targetFolder = undefined;
-                    } else {
-                        rule.targetFolder = rule.targetTag?.replace('#', '') || 'Example';
-                        rule.targetTag = undefined;
-                    }
-                    // Re-render the entire editor to swap the target field cleanly
-                    this.renderRuleEditor(ruleContainer, rule);
-                    liveRegion.textContent = `Target type changed to ${value}.`;
-                })
-            );
+            .setName('Exclude Sources')
+            .setDesc('Source paths to skip, one glob or folder per line (e.g., "Daily Log/Templates/**")')
+            .addTextArea(text => {
+                text.setPlaceholder('Daily Log/Templates/**')
+                    .setValue((rule.sourceExcludePatterns ?? []).join('\n'))
+                    .onChange((value) => {
+                        rule.sourceExcludePatterns = this.parsePatternList(value);
+                    });
+                text.inputEl.rows = 2;
+            });
 
-        // Target Value
+        // Target Criteria
         new Setting(editorContainer)
-            .setName(rule.targetTag ? 'Target Tag' : 'Target Folder')
-            .setDesc(rule.targetTag ? 'Tag to match (e.g., "#movie")' : 'Folder path to match (click to browse folders)')
-            .addText(text => {
-                let displayValue = rule.targetTag || rule.targetFolder || '';
-                if (!rule.targetTag && displayValue.endsWith('/*')) {
-                    displayValue = displayValue.slice(0, -2);
-                }
+            .setName('Target Criteria')
+            .setDesc('Notes that get updated. Combine tag, folder and property conditions with AND/OR groups; use "is not" to exclude.');
 
-                const textComponent = text
-                    .setValue(displayValue)
+        const criteriaContainer = editorContainer.createDiv('criteria-builder');
+        criteriaContainer.setAttribute('role', 'group');
+        criteriaContainer.setAttribute('aria-label', 'Target criteria');
+        this.renderCriteriaBuilder(criteriaContainer, rule, liveRegion);
+
+        // Target Exclusions
+        new Setting(editorContainer)
+            .setName('Exclude Targets')
+            .setDesc('Target paths never to update, one glob or folder per line (e.g., "Archive")')
+            .addTextArea(text => {
+                text.setPlaceholder('Archive')
+                    .setValue((rule.targetExcludePatterns ?? []).join('\n'))
                     .onChange((value) => {
-                        if (rule.targetTag !== undefined) {
-                            rule.targetTag = value;
-                            rule.targetFolder = undefined;
-                        } else {
-                            rule.targetFolder = value;
-                            rule.targetTag = undefined;
-                        }
+                        rule.targetExcludePatterns = this.parsePatternList(value);
                     });
+                text.inputEl.rows = 2;
+            });
 
-                if (rule.targetFolder !== undefined) {
-                    textComponent.inputEl.style.cursor = 'pointer';
-                    textComponent.inputEl.setAttribute('aria-haspopup', 'dialog');
-                    this.plugin.registerDomEvent(textComponent.inputEl, 'click', () => {
-                        const modal = new FolderSuggestModal(this.plugin.app, (folder) => {
-                            const pattern = folder.path ? `${folder.path}/*` : '*';
-                            rule.targetFolder = pattern;
-                            rule.targetTag = undefined;
-                            textComponent.setValue(folder.path || '');
-                        });
-                        modal.open();
+        // Source Conditions
+        new Setting(editorContainer)
+            .setName('Source Conditions')
+            .setDesc('Frontmatter conditions the source note must meet (all must match), e.g. type equals review')
+            .addButton(button => button
+                .setButtonText('Add condition')
+                .onClick(() => {
+                    rule.sourceConditions = [...(rule.sourceConditions ?? []), { key: '', operator: 'equals' }];
+                    this.renderSourceConditions(sourceConditionsContainer, rule, liveRegion);
+                    liveRegion.textContent = 'Source condition added.';
+                })
+            );
+
+        const sourceConditionsContainer = editorContainer.createDiv('source-conditions');
+        sourceConditionsContainer.setAttribute('role', 'group');
+        sourceConditionsContainer.setAttribute('aria-label', 'Source conditions');
+        this.renderSourceConditions(sourceConditionsContainer, rule, liveRegion);
+
+        // Link Context
+        new Setting(editorContainer)
+            .setName('Link Context')
+            .setHeading()
+            .setDesc('Only count links that appear in a particular place in the source note');
+
+        new Setting(editorContainer)
+            .setName('Under headings')
+            .setDesc('Comma-separated heading names (e.g., "Watched"); nested subheadings count')
+            .addText(text => text
+                .setPlaceholder('Watched')
+                .setValue((rule.linkContext?.headings ?? []).join(', '))
+                .onChange((value) => {
+                    this.updateLinkContext(rule, { headings: this.parseCommaList(value) });
+                })
+            );
+
+        new Setting(editorContainer)
+            .setName('Task items')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Any line')
+                .addOption('any', 'Any task')
+                .addOption('checked', 'Checked tasks only')
+                .addOption('unchecked', 'Unchecked tasks only')
+                .setValue(rule.linkContext?.taskStatus ?? '')
+                .onChange((value) => {
+                    this.updateLinkContext(rule, {
+                        taskStatus: value ? value as 'any' | 'checked' | 'unchecked' : undefined
                     });
-                }
+                })
+            );
 
-                return textComponent;
-            });
+        new Setting(editorContainer)
+            .setName('Line keywords')
+            .setDesc('Comma-separated words or emoji; the link\'s line must contain one of them')
+            .addText(text => text
+                .setPlaceholder('🎬, watched')
+                .setValue((rule.linkContext?.keywords ?? []).join(', '))
+                .onChange((value) => {
+                    this.updateLinkContext(rule, { keywords: this.parseCommaList(value) });
+                })
+            );
+
+        new Setting(editorContainer)
+            .setName('Link kind')
+            .addDropdown(dropdown => dropdown
+                .addOption('links', 'Plain links')
+                .addOption('embeds', 'Embeds only')
+                .addOption('both', 'Links and embeds')
+                .setValue(rule.linkContext?.linkKind ?? 'links')
+                .onChange((value) => {
+                    this.updateLinkContext(rule, {
+                        linkKind: value === 'links' ? undefined : value as 'embeds' | 'both'
+                    });
+                })
+            );
 
         // Update Field
         new Setting(editorContainer)
@@ -616,12 +1336,152 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
                 .addOption('append_link', 'Append Link')
                 .addOption('append_unique_link', 'Append Unique Link')
                 .addOption('replace_link', 'Replace Link')
+                .addOption('custom', 'Custom Template')
+                .addOption('copy_property', 'Copy Property from Source')
+                .addOption('inline_field', 'Inline Field from Link Line')
+                .addOption('context_snippet', 'Context Snippet')
+                .addOption('count', 'Count (Distinct Sources)')
+                .addOption('mention_count', 'Mention Count')
+                .addOption('first_date', 'First Date')
+                .addOption('frequency', 'Frequency (Mentions per Month)')
                 .setValue(rule.valueType)
                 .onChange((value) => {
+                    const isDate = (type: string) => type === 'date' || type === 'date_and_title';
+                    const previous = rule.valueType;
                     rule.valueType = value as any;
+                    const hasOwnFields = (type: string) => type === 'custom' || type === 'copy_property' || type === 'inline_field' || type === 'context_snippet' || isDate(type);
+                    if (previous !== value && (hasOwnFields(previous) || hasOwnFields(value))) {
+                        // Re-render to show or hide the fields specific to a value type
+                        this.renderRuleEditor(ruleContainer, rule);
+                        liveRegion.textContent = `Value type changed to ${value}.`;
+                    }
                 })
             );
 
+        // Copied property (copy_property value type only)
+        if (rule.valueType === 'copy_property') {
+            new Setting(editorContainer)
+                .setName('Source Property')
+                .setDesc('Frontmatter key to copy from the source note (e.g., location, rating); its type is kept')
+                .addText(text => text
+                    .setPlaceholder('location')
+                    .setValue(rule.sourceProperty || '')
+                    .onChange((value) => {
+                        rule.sourceProperty = value.trim();
+                    })
+                );
+
+            new Setting(editorContainer)
+                .setName('Copy Mode')
+                .setDesc('Replace the current value, or add to a list (list values are added item by item)')
+                .addDropdown(dropdown => dropdown
+                    .addOption('replace', 'Replace')
+                    .addOption('append', 'Append to list')
+                    .addOption('append_unique', 'Append unique to list')
+                    .setValue(rule.copyMerge ?? 'replace')
+                    .onChange((value) => {
+                        rule.copyMerge = value === 'replace' ? undefined : value as CopyMergeMode;
+                    })
+                );
+        }
+
+        // Inline field key (inline_field value type only)
+        if (rule.valueType === 'inline_field') {
+            new Setting(editorContainer)
+                .setName('Inline Field')
+                .setDesc('Key of a Dataview-style field (rating:: 4 or [rating:: 4]) on the same line or list item as the link; the latest value is kept')
+                .addText(text => text
+                    .setPlaceholder('rating')
+                    .setValue(rule.inlineField || '')
+                    .onChange((value) => {
+                        rule.inlineField = value.trim();
+                    })
+                );
+        }
+
+        // Snippet around the link (context_snippet value type, or snippets in history)
+        if (rule.valueType === 'context_snippet' || rule.historySnippet) {
+            new Setting(editorContainer)
+                .setName('Snippet Scope')
+                .setDesc('Text captured around the link, with markdown stripped')
+                .addDropdown(dropdown => dropdown
+                    .addOption('sentence', 'Sentence')
+                    .addOption('block', 'List item or paragraph')
+                    .setValue(rule.snippetScope ?? 'sentence')
+                    .onChange((value) => {
+                        rule.snippetScope = value === 'sentence' ? undefined : value as SnippetScope;
+                    })
+                );
+
+            new Setting(editorContainer)
+                .setName('Snippet Length')
+                .setDesc('Maximum characters; longer snippets are cut around the link (20–1000)')
+                .addText(text => {
+                    text.setValue((rule.snippetLength ?? DEFAULT_SNIPPET_LENGTH).toString())
+                        .onChange((value) => {
+                            const parsed = parseInt(value);
+                            rule.snippetLength = isNaN(parsed) ? undefined : Math.max(20, Math.min(parsed, 1000));
+                        });
+                    text.inputEl.setAttribute('type', 'number');
+                    text.inputEl.setAttribute('min', '20');
+                    text.inputEl.setAttribute('max', '1000');
+                    text.inputEl.setAttribute('inputmode', 'numeric');
+                });
+        }
+
+        // Date merge (date value types only)
+        if (rule.valueType === 'date' || rule.valueType === 'date_and_title') {
+            new Setting(editorContainer)
+                .setName('Keep Date')
+                .setDesc('Which date to keep when a source has a different date than the current value')
+                .addDropdown(dropdown => dropdown
+                    .addOption('newest', 'Newest (e.g. lastWatched)')
+                    .addOption('oldest', 'Oldest (e.g. firstWatched)')
+                    .addOption('overwrite', 'Always overwrite with latest processed')
+                    .setValue(rule.dateMerge ?? 'newest')
+                    .onChange((value) => {
+                        rule.dateMerge = value === 'newest' ? undefined : value as DateMergeMode;
+                    })
+                );
+        }
+
+        // Value Template (custom value type only)
+        if (rule.valueType === 'custom') {
+            new Setting(editorContainer)
+                .setName('Value Template')
+                .setDesc('Placeholders: {{date}}, {{title}}, {{now}}, {{source.path}}, {{source.basename}}, {{source.link}}, ' +
+                    '{{source.frontmatter.<key>}}, {{target.<...>}}. Filters: {{date | format:"MMM D, YYYY"}}, upper, lower, ' +
+                    'link, default:<value>. Start with { or [ to write a JSON object.')
+                .addTextArea(text => {
+                    text.setPlaceholder('{{date}} — {{title}}')
+                        .setValue(rule.valueTemplate || '')
+                        .onChange((value) => {
+                            rule.valueTemplate = value;
+                            updatePreview();
+                        });
+                    text.inputEl.rows = 3;
+                });
+
+            const previewEl = editorContainer.createDiv('template-preview');
+            previewEl.setAttribute('aria-live', 'polite');
+            previewEl.setAttribute('aria-label', 'Rendered template preview');
+
+            const updatePreview = () => {
+                previewEl.empty();
+                const preview = this.plugin.renderTemplatePreview(rule);
+                if ('error' in preview) {
+                    previewEl.createSpan({ text: `Preview unavailable: ${preview.error}`, cls: 'template-preview-error' });
+                    return;
+                }
+                previewEl.createDiv({ text: `Sample source: ${preview.sourcePath}`, cls: 'template-preview-source' });
+                previewEl.createEl('pre', {
+                    text: typeof preview.value === 'string' ? preview.value : JSON.stringify(preview.value, null, 2)
+                });
+            };
+
+            updatePreview();
+        }
+
         // Priority
         new Setting(editorContainer)
             .setName('Priority')
@@ -659,6 +1519,21 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
                 })
             );
 
+        // History Snippet Toggle
+        new Setting(editorContainer)
+            .setName('Snippet in History')
+            .setDesc('Add the text around the link to each history entry, to show why the note was linked (not for lastWatched/lastRead date histories)')
+            .addToggle(toggle => toggle
+                .setValue(!!rule.historySnippet)
+                .onChange((value) => {
+                    rule.historySnippet = value || undefined;
+                    if (rule.valueType !== 'context_snippet') {
+                        // Re-render to show or hide the snippet fields
+                        this.renderRuleEditor(ruleContainer, rule);
+                    }
+                })
+            );
+
         // Action buttons
         const buttonContainer = editorContainer.createDiv('rule-editor-actions');
 
@@ -689,6 +1564,287 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
         };
     }
 
+    /**
+     * Merge changes into a rule's link context, dropping it entirely when nothing is set.
+     */
+    private updateLinkContext(rule: Rule, changes: Partial<LinkContextFilter>) {
+        const merged: LinkContextFilter = { ...rule.linkContext, ...changes };
+        for (const key of Object.keys(merged) as (keyof LinkContextFilter)[]) {
+            if (merged[key] === undefined) {
+                delete merged[key];
+            }
+        }
+        rule.linkContext = Object.keys(merged).length > 0 ? merged : undefined;
+    }
+
+    /**
+     * Split a comma-separated list, dropping blanks. Returns undefined when empty.
+     */
+    private parseCommaList(value: string): string[] | undefined {
+        const items = value.split(',').map(item => item.trim()).filter(item => item !== '');
+        return items.length > 0 ? items : undefined;
+    }
+
+    /**
+     * Split a multi-line pattern list, dropping blanks. Returns undefined when empty.
+     */
+    private parsePatternList(value: string): string[] | undefined {
+        const patterns = value.split('\n').map(line => line.trim()).filter(line => line !== '');
+        return patterns.length > 0 ? patterns : undefined;
+    }
+
+    private renderCriteriaBuilder(containerEl: HTMLElement, rule: Rule, liveRegion: HTMLElement) {
+        containerEl.empty();
+
+        // The root is always a group so conditions can be added to it
+        if (!rule.targetCriteria || (rule.targetCriteria.type !== 'and' && rule.targetCriteria.type !== 'or')) {
+            rule.targetCriteria = { type: 'and', children: rule.targetCriteria ? [rule.targetCriteria] : [] };
+        }
+        const root = rule.targetCriteria;
+
+        const summaryEl = containerEl.createDiv('criteria-summary');
+        const updateSummary = () => {
+            summaryEl.setText(`Matches: ${RuleEngine.describeCriteria(root)}`);
+        };
+        const rerender = (announcement?: string) => {
+            this.renderCriteriaBuilder(containerEl, rule, liveRegion);
+            if (announcement) {
+                liveRegion.textContent = announcement;
+            }
+        };
+
+        this.renderCriteriaGroup(containerEl, root, 0, rerender, updateSummary);
+        updateSummary();
+    }
+
+    private renderCriteriaGroup(
+        containerEl: HTMLElement,
+        group: CriteriaGroup,
+        depth: number,
+        rerender: (announcement?: string) => void,
+        onChange: () => void
+    ) {
+        const groupEl = containerEl.createDiv('criteria-group');
+
+        new Setting(groupEl)
+            .setName(depth === 0 ? 'Match' : 'Group')
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOption('and', 'All of (AND)')
+                    .addOption('or', 'Any of (OR)')
+                    .setValue(group.type)
+                    .onChange((value) => {
+                        group.type = value as 'and' | 'or';
+                        onChange();
+                    });
+                dropdown.selectEl.setAttribute('aria-label', 'Group operator');
+            })
+            .addButton(button => button
+                .setButtonText('Add condition')
+                .onClick(() => {
+                    group.children.push({ type: 'tag', tag: '#' });
+                    rerender('Condition added.');
+                })
+            )
+            .addButton(button => button
+                .setButtonText('Add group')
+                .onClick(() => {
+                    group.children.push({ type: 'or', children: [] });
+                    rerender('Group added.');
+                })
+            );
+
+        const childrenEl = groupEl.createDiv('criteria-children');
+        group.children.forEach((_child, index) => {
+            this.renderCriteriaNode(childrenEl, group, index, depth + 1, rerender, onChange);
+        });
+    }
+
+    private renderCriteriaNode(
+        containerEl: HTMLElement,
+        parent: CriteriaGroup,
+        index: number,
+        depth: number,
+        rerender: (announcement?: string) => void,
+        onChange: () => void
+    ) {
+        const node = parent.children[index];
+        const negated = node.type === 'not';
+        const inner = node.type === 'not' ? node.child : node;
+        const setInner = (replacement: CriteriaNode) => {
+            parent.children[index] = negated ? { type: 'not', child: replacement } : replacement;
+        };
+
+        const row = new Setting(containerEl).setClass('criteria-row');
+
+        row.addDropdown(dropdown => {
+            dropdown
+                .addOption('is', 'Is')
+                .addOption('not', 'Is not')
+                .setValue(negated ? 'not' : 'is')
+                .onChange((value) => {
+                    parent.children[index] = value === 'not' ? { type: 'not', child: inner } : inner;
+                    rerender();
+                });
+            dropdown.selectEl.setAttribute('aria-label', 'Negate condition');
+        });
+
+        row.addDropdown(dropdown => {
+            dropdown
+                .addOption('tag', 'Tagged')
+                .addOption('folder', 'In folder')
+                .addOption('property', 'Property')
+                .addOption('group', 'Group')
+                .setValue(inner.type === 'and' || inner.type === 'or' ? 'group' : inner.type)
+                .onChange((value) => {
+                    if (value === 'tag') {
+                        setInner({ type: 'tag', tag: '#' });
+                    } else if (value === 'folder') {
+                        setInner({ type: 'folder', folder: '' });
+                    } else if (value === 'property') {
+                        setInner({ type: 'property', key: '' });
+                    } else {
+                        setInner({ type: 'or', children: [] });
+                    }
+                    rerender(`Condition type changed to ${value}.`);
+                });
+            dropdown.selectEl.setAttribute('aria-label', 'Condition type');
+        });
+
+        switch (inner.type) {
+            case 'tag':
+                row.addText(text => {
+                    text.setPlaceholder('#movie or #media/*')
+                        .setValue(inner.tag)
+                        .onChange((value) => {
+                            inner.tag = value;
+                            onChange();
+                        });
+                    text.inputEl.setAttribute('aria-label', 'Tag');
+                });
+                row.addToggle(toggle => {
+                    toggle.setValue(inner.includeNested ?? false)
+                        .setTooltip('Include nested tags (e.g. #media also matches #media/movie)')
+                        .onChange((value) => {
+                            inner.includeNested = value || undefined;
+                            onChange();
+                        });
+                    toggle.toggleEl.setAttribute('aria-label', 'Include nested tags');
+                });
+                break;
+
+            case 'folder':
+                row.addText(text => {
+                    text.setPlaceholder('Click to browse folders')
+                        .setValue(inner.folder.endsWith('/*') ? inner.folder.slice(0, -2) : inner.folder)
+                        .onChange((value) => {
+                            inner.folder = value;
+                            onChange();
+                        });
+                    text.inputEl.setAttribute('aria-label', 'Folder');
+                    text.inputEl.style.cursor = 'pointer';
+                    text.inputEl.setAttribute('aria-haspopup', 'dialog');
+                    this.plugin.registerDomEvent(text.inputEl, 'click', () => {
+                        const modal = new FolderSuggestModal(this.plugin.app, (folder) => {
+                            inner.folder = folder.path ? `${folder.path}/*` : '*';
+                            text.setValue(folder.path || '');
+                            onChange();
+                        });
+                        modal.open();
+                    });
+                });
+                break;
+
+            case 'property':
+                if (!inner.operator) {
+                    inner.operator = inner.value ? 'equals' : 'exists';
+                }
+                this.addPropertyConditionControls(row, inner as PropertyCondition, onChange);
+                break;
+        }
+
+        row.addExtraButton(button => {
+            button.setIcon('trash')
+                .setTooltip('Remove condition')
+                .onClick(() => {
+                    parent.children.splice(index, 1);
+                    rerender('Condition removed.');
+                });
+        });
+
+        if (inner.type === 'and' || inner.type === 'or') {
+            this.renderCriteriaGroup(containerEl, inner, depth, rerender, onChange);
+        }
+    }
+
+    /**
+     * Add property name, operator and value inputs for a property condition to a row.
+     */
+    private addPropertyConditionControls(row: Setting, condition: PropertyCondition, onChange: () => void) {
+        let valueInput: HTMLInputElement | null = null;
+        const updateValueVisibility = () => {
+            if (valueInput) {
+                valueInput.style.display = CONDITION_OPERATORS[condition.operator]?.valueKind === 'none' ? 'none' : '';
+            }
+        };
+
+        row.addText(text => {
+            text.setPlaceholder('Property name')
+                .setValue(condition.key)
+                .onChange((value) => {
+                    condition.key = value.trim();
+                    onChange();
+                });
+            text.inputEl.setAttribute('aria-label', 'Property name');
+        });
+
+        row.addDropdown(dropdown => {
+            for (const [operator, info] of Object.entries(CONDITION_OPERATORS)) {
+                dropdown.addOption(operator, info.label);
+            }
+            dropdown.setValue(condition.operator)
+                .onChange((value) => {
+                    condition.operator = value as ConditionOperator;
+                    updateValueVisibility();
+                    onChange();
+                });
+            dropdown.selectEl.setAttribute('aria-label', 'Comparison');
+        });
+
+        row.addText(text => {
+            text.setPlaceholder('Value (dates accept "today")')
+                .setValue(condition.value ?? '')
+                .onChange((value) => {
+                    condition.value = value || undefined;
+                    onChange();
+                });
+            text.inputEl.setAttribute('aria-label', 'Property value');
+            valueInput = text.inputEl;
+        });
+
+        updateValueVisibility();
+    }
+
+    private renderSourceConditions(containerEl: HTMLElement, rule: Rule, liveRegion: HTMLElement) {
+        containerEl.empty();
+        const conditions = rule.sourceConditions ?? [];
+
+        conditions.forEach((condition, index) => {
+            const row = new Setting(containerEl).setClass('criteria-row');
+            this.addPropertyConditionControls(row, condition, () => {});
+            row.addExtraButton(button => {
+                button.setIcon('trash')
+                    .setTooltip('Remove condition')
+                    .onClick(() => {
+                        conditions.splice(index, 1);
+                        rule.sourceConditions = conditions.length > 0 ? conditions : undefined;
+                        this.renderSourceConditions(containerEl, rule, liveRegion);
+                        liveRegion.textContent = 'Source condition removed.';
+                    });
+            });
+        });
+    }
+
     private validateRuleInputs(rule: Rule): { isValid: boolean; errors: string[] } {
         const errors: string[] = [];
 
@@ -700,18 +1856,36 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
             errors.push('Source pattern is required');
         }
 
-        if (!rule.targetTag && !rule.targetFolder) {
-            errors.push('Either target tag or target folder must be specified');
+        const criteria = rule.targetCriteria;
+        if (!criteria || ((criteria.type === 'and' || criteria.type === 'or') && criteria.children.length === 0)) {
+            errors.push('At least one target condition must be specified');
+        } else {
+            errors.push(...this.validateCriteriaInputs(criteria));
         }
 
-        if (rule.targetTag && !rule.targetTag.startsWith('#')) {
-            errors.push('Target tag must start with #');
+        for (const condition of rule.sourceConditions ?? []) {
+            errors.push(...this.validateConditionInputs(condition, 'Source condition'));
         }
 
         if (!rule.updateField || rule.updateField.trim() === '') {
             errors.push('Update field is required');
         }
 
+        if (rule.valueType === 'custom') {
+            const templateError = TemplateRenderer.validate(rule.valueTemplate || '');
+            if (templateError) {
+                errors.push(templateError);
+            }
+        }
+
+        if (rule.valueType === 'copy_property' && !rule.sourceProperty?.trim()) {
+            errors.push('Source property is required for the Copy Property value type');
+        }
+
+        if (rule.valueType === 'inline_field' && !rule.inlineField?.trim()) {
+            errors.push('Inline field is required for the Inline Field value type');
+        }
+
         if (rule.priority < 1) {
             errors.push('Priority must be at least 1');
         }
@@ -722,6 +1896,43 @@ class BacklinkMetadataSettingTab extends PluginSettingTab {
         };
     }
 
+    private validateCriteriaInputs(node: CriteriaNode): string[] {
+        switch (node.type) {
+            case 'and':
+            case 'or':
+                return node.children.flatMap(child => this.validateCriteriaInputs(child));
+            case 'not':
+                return this.validateCriteriaInputs(node.child);
+            case 'tag':
+                if (!node.tag || node.tag === '#') return ['Target tag is required'];
+                return node.tag.startsWith('#') ? [] : ['Target tag must start with #'];
+            case 'folder':
+                return node.folder ? [] : ['Target folder is required'];
+            case 'property':
+                return this.validateConditionInputs({
+                    key: node.key,
+                    operator: node.operator ?? (node.value ? 'equals' : 'exists'),
+                    value: node.value
+                }, 'Target property');
+            default:
+                return [];
+        }
+    }
+
+    private validateConditionInputs(condition: PropertyCondition, label: string): string[] {
+        if (!condition.key) {
+            return [`${label} name is required`];
+        }
+        const info = CONDITION_OPERATORS[condition.operator];
+        if (info && info.valueKind !== 'none' && !condition.value) {
+            return [`${label} "${condition.key}" needs a value`];
+        }
+        if (info?.valueKind === 'number' && isNaN(parseFloat(condition.value ?? ''))) {
+            return [`${label} "${condition.key}" needs a numeric value`];
+        }
+        return [];
+    }
+
     private confirmDeleteRule(index: number, ruleName: string) {
         const modal = new ConfirmDeleteModal(this.plugin.app, ruleName, () => {
             this.plugin.settings.rules.splice(index, 1);
@@ -791,3 +2002,42 @@ class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
         this.close();
     }
 }
+
+class RuleSuggestModal extends FuzzySuggestModal<Rule> {
+    constructor(app: App, private rules: Rule[], private onChoose: (rule: Rule) => void) {
+        super(app);
+        this.setPlaceholder('Choose a rule...');
+    }
+
+    getItems(): Rule[] {
+        return this.rules.filter(rule => rule.enabled);
+    }
+
+    getItemText(rule: Rule): string {
+        return `${rule.name} (${rule.updateField})`;
+    }
+
+    onChooseItem(rule: Rule): void {
+        this.onChoose(rule);
+    }
+}
+
+class OperationSuggestModal extends FuzzySuggestModal<JournalOperation> {
+    constructor(app: App, private operations: JournalOperation[], private onChoose: (operation: JournalOperation) => void) {
+        super(app);
+        this.setPlaceholder('Choose an update to undo...');
+    }
+
+    getItems(): JournalOperation[] {
+        return this.operations;
+    }
+
+    getItemText(operation: JournalOperation): string {
+        const when = moment(operation.timestamp).format('YYYY-MM-DD HH:mm');
+        return `${when} — ${operation.label} (${operation.entries.length} change${operation.entries.length === 1 ? '' : 's'})`;
+    }
+
+    onChooseItem(operation: JournalOperation): void {
+        this.onChoose(operation);
+    }
+}
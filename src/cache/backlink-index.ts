@@ -0,0 +1,193 @@
+import { App } from 'obsidian';
+import { BacklinkCache, BacklinkCacheEntry } from '../types';
+
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Simple string hash for content comparison (avoids storing full content).
+ */
+export function hashContent(content: string): number {
+    let hash = 0;
+    for (let i = 0; i < content.length; i++) {
+        const chr = content.charCodeAt(i);
+        hash = ((hash << 5) - hash) + chr;
+        hash |= 0; // Convert to 32bit integer
+    }
+    return hash;
+}
+
+/**
+ * Persisted index of each source note's outgoing links as of its last processing,
+ * plus the reverse (incoming) links. Survives restarts so the first edit after a
+ * restart yields exact added and removed links. Stored as JSON in the plugin folder;
+ * saves are batched shortly after changes.
+ */
+export class BacklinkIndex {
+    private app: App;
+    private storagePath: string;
+    private entries: BacklinkCache = {};
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(app: App, storagePath: string) {
+        this.app = app;
+        this.storagePath = storagePath;
+    }
+
+    /**
+     * Load the persisted index (missing or unreadable indexes start empty).
+     */
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.storagePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.storagePath));
+                this.entries = data?.entries && typeof data.entries === 'object' ? data.entries : {};
+            }
+        } catch (error) {
+            console.error('BacklinkIndex: Failed to load index:', error);
+            this.entries = {};
+        }
+    }
+
+    get(path: string): BacklinkCacheEntry | undefined {
+        return this.entries[path];
+    }
+
+    /**
+     * Whether a note has been processed as a source since the index was created
+     */
+    isIndexed(path: string): boolean {
+        return (this.entries[path]?.lastUpdated ?? 0) > 0;
+    }
+
+    /**
+     * Most recent time any note was processed (0 for an empty index)
+     */
+    getLastActivity(): number {
+        let latest = 0;
+        for (const entry of Object.values(this.entries)) {
+            latest = Math.max(latest, entry.lastUpdated);
+        }
+        return latest;
+    }
+
+    /**
+     * Links added and removed since the note was last processed.
+     * A note that was never processed reports every link as added.
+     */
+    diffLinks(path: string, currentLinks: string[]): { added: string[]; removed: string[] } {
+        const previous = this.entries[path]?.outgoingLinks ?? [];
+        return {
+            added: currentLinks.filter(link => !previous.includes(link)),
+            removed: previous.filter(link => !currentLinks.includes(link))
+        };
+    }
+
+    /**
+     * Record that a source note was processed with the given outgoing links
+     */
+    recordProcessed(path: string, outgoingLinks: string[], contentHash: number): void {
+        const entry = this.ensureEntry(path);
+        const links = [...new Set(outgoingLinks)];
+
+        for (const removed of entry.outgoingLinks.filter(link => !links.includes(link))) {
+            this.removeIncoming(removed, path);
+        }
+        for (const added of links.filter(link => !entry.outgoingLinks.includes(link))) {
+            const target = this.ensureEntry(added);
+            if (!target.incomingLinks.includes(path)) {
+                target.incomingLinks.push(path);
+            }
+        }
+
+        entry.outgoingLinks = links;
+        entry.contentHash = contentHash;
+        entry.lastUpdated = Date.now();
+        this.scheduleSave();
+    }
+
+    /**
+     * Move a note's entry to its new path and rewrite references to it
+     */
+    rename(oldPath: string, newPath: string): void {
+        const entry = this.entries[oldPath];
+        if (!entry) {
+            return;
+        }
+
+        delete this.entries[oldPath];
+        this.entries[newPath] = entry;
+
+        const replace = (links: string[]) => links.map(link => link === oldPath ? newPath : link);
+        for (const path of entry.outgoingLinks) {
+            const target = this.entries[path];
+            if (target) target.incomingLinks = replace(target.incomingLinks);
+        }
+        for (const path of entry.incomingLinks) {
+            const source = this.entries[path];
+            if (source) source.outgoingLinks = replace(source.outgoingLinks);
+        }
+        this.scheduleSave();
+    }
+
+    /**
+     * Drop a deleted note from the index, returning its last entry.
+     * Sources that linked to it keep the link until they are next processed.
+     */
+    remove(path: string): BacklinkCacheEntry | undefined {
+        const entry = this.entries[path];
+        if (!entry) {
+            return undefined;
+        }
+
+        delete this.entries[path];
+        for (const target of entry.outgoingLinks) {
+            this.removeIncoming(target, path);
+        }
+        this.scheduleSave();
+        return entry;
+    }
+
+    /**
+     * Write pending changes to storage
+     */
+    async flush(): Promise<void> {
+        if (!this.saveTimer) {
+            return;
+        }
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+
+        try {
+            await this.app.vault.adapter.write(this.storagePath, JSON.stringify({ entries: this.entries }));
+        } catch (error) {
+            console.error('BacklinkIndex: Failed to save index:', error);
+        }
+    }
+
+    private ensureEntry(path: string): BacklinkCacheEntry {
+        if (!this.entries[path]) {
+            this.entries[path] = { outgoingLinks: [], incomingLinks: [], lastUpdated: 0 };
+        }
+        return this.entries[path];
+    }
+
+    private removeIncoming(targetPath: string, sourcePath: string): void {
+        const target = this.entries[targetPath];
+        if (!target) {
+            return;
+        }
+
+        target.incomingLinks = target.incomingLinks.filter(link => link !== sourcePath);
+
+        // Targets that were never sources only exist to hold incoming links
+        if (target.incomingLinks.length === 0 && target.lastUpdated === 0) {
+            delete this.entries[targetPath];
+        }
+    }
+
+    private scheduleSave(): void {
+        if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+        }
+    }
+}
@@ -1,10 +1,12 @@
-import { App, TFile, TAbstractFile, CachedMetadata } from 'obsidian';
-import { Rule, ValidationResult, ProcessingContext } from '../types';
+import { App, TFile, TAbstractFile, CachedMetadata, moment } from 'obsidian';
+import { Rule, ValidationResult, ProcessingContext, CriteriaNode, PropertyCondition, ConditionOperator, CONDITION_OPERATORS } from '../types';
+import { TemplateRenderer } from '../utils/template-renderer';
 
 export class RuleEngine {
     private app: App;
     private regexCache: Map<string, RegExp> = new Map();
     private enableLogging: boolean = false;
+    private optOutProperty = 'backlink-metadata';
 
     constructor(app: App) {
         this.app = app;
@@ -18,22 +20,47 @@ export class RuleEngine {
     }
 
     /**
-     * Find all rules that apply to a given source/target file combination
+     * Set the frontmatter key notes use to opt out (empty string disables opt-out).
      */
-    findApplicableRules(sourceFile: TFile, targetFile: TFile, rules: Rule[]): Rule[] {
+    setOptOutProperty(key: string): void {
+        this.optOutProperty = key.trim();
+    }
+
+    /**
+     * Find all rules that apply to a given source/target file combination.
+     * A deleted source's last metadata can be passed in, since the cache no longer has it.
+     */
+    findApplicableRules(sourceFile: TFile, targetFile: TFile, rules: Rule[], sourceCache?: CachedMetadata | null): Rule[] {
         return rules
             .filter(rule => rule.enabled)
-            .filter(rule => this.matchesSourcePattern(rule, sourceFile))
+            .filter(rule => this.matchesSourcePattern(rule, sourceFile, sourceCache))
+            .filter(rule => this.matchesSourceConditions(rule, sourceFile, sourceCache))
             .filter(rule => this.matchesTargetCriteria(rule, targetFile))
             .sort((a, b) => a.priority - b.priority); // Lower priority number = higher priority, processed first
     }
 
     /**
-     * Check if source file matches the rule's pattern
+     * Check if source file matches the rule's pattern and is not excluded
      */
-    matchesSourcePattern(rule: Rule, sourceFile: TFile): boolean {
-        let pattern = rule.sourcePattern;
+    matchesSourcePattern(rule: Rule, sourceFile: TFile, sourceCache?: CachedMetadata | null): boolean {
+        if (!this.matchesPathPattern(rule.sourcePattern, sourceFile.path)) {
+            return false;
+        }
+
+        if (this.isExcluded(rule.sourceExcludePatterns, sourceFile.path)) {
+            if (this.enableLogging) {
+                console.log(`RuleEngine: Source file ${sourceFile.path} excluded by rule ${rule.name}`);
+            }
+            return false;
+        }
 
+        return !this.isOptedOut(sourceFile, sourceCache);
+    }
+
+    /**
+     * Match a path against a source-style pattern: globs, exact paths, or folders (recursive)
+     */
+    private matchesPathPattern(pattern: string, path: string): boolean {
         // Handle glob-like patterns
         if (pattern.includes('*')) {
             // Source patterns ending with /* should match recursively (/**)
@@ -41,95 +68,389 @@ export class RuleEngine {
             if (pattern.endsWith('/*') && !pattern.endsWith('/**')) {
                 pattern = pattern.slice(0, -2) + '/**';
             }
-            return this.matchesGlobPattern(pattern, sourceFile.path);
+            return this.matchesGlobPattern(pattern, path);
         }
 
         // Exact path match
-        if (pattern === sourceFile.path) {
+        if (pattern === path) {
             return true;
         }
 
         // Folder match (with or without trailing slash) — recursive
-        if (sourceFile.path.startsWith(pattern.endsWith('/') ? pattern : pattern + '/')) {
+        if (path.startsWith(pattern.endsWith('/') ? pattern : pattern + '/')) {
             return true;
         }
 
         return false;
     }
 
+    /**
+     * Check if a path matches any of a rule's exclude patterns
+     */
+    private isExcluded(patterns: string[] | undefined, path: string): boolean {
+        if (!patterns || patterns.length === 0) {
+            return false;
+        }
+        return patterns.some(pattern => pattern.trim() !== '' && this.matchesPathPattern(pattern.trim(), path));
+    }
+
+    /**
+     * Check if a note opts out of backlink metadata via its frontmatter (e.g. "backlink-metadata: ignore")
+     */
+    isOptedOut(file: TFile, cache?: CachedMetadata | null): boolean {
+        if (!this.optOutProperty) {
+            return false;
+        }
+
+        const value = (cache ?? this.app.metadataCache.getFileCache(file))?.frontmatter?.[this.optOutProperty];
+        if (value === undefined || value === null) {
+            return false;
+        }
+
+        const optedOut = value === false || String(value).trim().toLowerCase() === 'ignore';
+        if (optedOut && this.enableLogging) {
+            console.log(`RuleEngine: ${file.path} opted out via ${this.optOutProperty}`);
+        }
+        return optedOut;
+    }
+
+    /**
+     * Check if source file's frontmatter satisfies all of the rule's source conditions
+     */
+    matchesSourceConditions(rule: Rule, sourceFile: TFile, sourceCache?: CachedMetadata | null): boolean {
+        if (!rule.sourceConditions || rule.sourceConditions.length === 0) {
+            return true;
+        }
+
+        const frontmatter = (sourceCache ?? this.app.metadataCache.getFileCache(sourceFile))?.frontmatter;
+        const matches = rule.sourceConditions.every(condition => this.matchesPropertyCondition(frontmatter, condition));
+        if (this.enableLogging) {
+            console.log(`RuleEngine: Source file ${sourceFile.path} matches source conditions of ${rule.name}: ${matches}`);
+        }
+        return matches;
+    }
+
     /**
      * Check if target file matches the rule's target criteria
      */
-    private matchesTargetCriteria(rule: Rule, targetFile: TFile): boolean {
-        // Check target tag if specified
-        if (rule.targetTag) {
-            const hasTag = this.fileHasTag(targetFile, rule.targetTag);
+    matchesTargetCriteria(rule: Rule, targetFile: TFile): boolean {
+        if (this.isExcluded(rule.targetExcludePatterns, targetFile.path)) {
             if (this.enableLogging) {
-                console.log(`RuleEngine: Target file ${targetFile.path} has tag ${rule.targetTag}: ${hasTag}`);
-            }
-            return hasTag;
-        }
-
-        // Check target folder if specified
-        if (rule.targetFolder) {
-            // Target folder semantically means "any file under this folder tree"
-            // Bare folder names (no glob) get /** appended; /* gets promoted to /**
-            let folderPattern = rule.targetFolder;
-            if (!folderPattern.includes('*')) {
-                // Bare folder name like "Places" → "Places/**"
-                folderPattern = folderPattern.replace(/\/+$/, '') + '/**';
-            } else if (folderPattern.endsWith('/*') && !folderPattern.endsWith('/**')) {
-                folderPattern = folderPattern.slice(0, -2) + '/**';
+                console.log(`RuleEngine: Target file ${targetFile.path} excluded by rule ${rule.name}`);
             }
-            const matchesFolder = this.matchesGlobPattern(folderPattern, targetFile.path);
+            return false;
+        }
+
+        if (this.isOptedOut(targetFile)) {
+            return false;
+        }
+
+        const criteria = rule.targetCriteria ?? RuleEngine.migrateRule(rule).targetCriteria;
+
+        // If no specific target criteria, match all files
+        if (!criteria) {
             if (this.enableLogging) {
-                console.log(`RuleEngine: Target file ${targetFile.path} matches folder pattern ${rule.targetFolder} (resolved: ${folderPattern}): ${matchesFolder}`);
+                console.log(`RuleEngine: No target criteria specified, matching all files for ${targetFile.path}`);
             }
-            return matchesFolder;
+            return true;
         }
 
-        // If no specific target criteria, match all files
+        const matches = this.evaluateCriteria(criteria, targetFile);
         if (this.enableLogging) {
-            console.log(`RuleEngine: No target criteria specified, matching all files for ${targetFile.path}`);
+            console.log(`RuleEngine: Target file ${targetFile.path} matches ${RuleEngine.describeCriteria(criteria)}: ${matches}`);
         }
-        return true;
+        return matches;
     }
 
     /**
-     * Check if file has a specific tag
+     * Evaluate a criteria expression tree against a target file.
+     * Empty AND groups match everything; empty OR groups match nothing.
      */
-    private fileHasTag(file: TFile, tag: string): boolean {
-        const cache = this.app.metadataCache.getFileCache(file);
+    evaluateCriteria(node: CriteriaNode, targetFile: TFile): boolean {
+        switch (node.type) {
+            case 'and':
+                return node.children.every(child => this.evaluateCriteria(child, targetFile));
+            case 'or':
+                return node.children.some(child => this.evaluateCriteria(child, targetFile));
+            case 'not':
+                return !this.evaluateCriteria(node.child, targetFile);
+            case 'tag':
+                return this.fileHasTag(targetFile, node.tag, node.includeNested);
+            case 'folder':
+                return this.fileInFolder(targetFile, node.folder);
+            case 'property':
+                return this.fileHasProperty(targetFile, node.key, node.operator, node.value);
+            default:
+                return false;
+        }
+    }
 
-        if (!cache) {
+    /**
+     * Check if file is under a target folder.
+     * Target folder semantically means "any file under this folder tree":
+     * bare folder names (no glob) get /** appended; /* gets promoted to /**
+     */
+    private fileInFolder(file: TFile, folder: string): boolean {
+        let folderPattern = folder;
+        if (!folderPattern.includes('*')) {
+            // Bare folder name like "Places" → "Places/**"
+            folderPattern = folderPattern.replace(/\/+$/, '') + '/**';
+        } else if (folderPattern.endsWith('/*') && !folderPattern.endsWith('/**')) {
+            folderPattern = folderPattern.slice(0, -2) + '/**';
+        }
+        return this.matchesGlobPattern(folderPattern, file.path);
+    }
+
+    /**
+     * Check a property criterion against a file's frontmatter.
+     * Without an explicit operator, a value means equals and no value means exists.
+     */
+    private fileHasProperty(file: TFile, key: string, operator: ConditionOperator | undefined, value?: string): boolean {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const resolvedOperator = operator ?? (value === undefined || value === '' ? 'exists' : 'equals');
+        return this.matchesPropertyCondition(frontmatter, { key, operator: resolvedOperator, value });
+    }
+
+    /**
+     * Evaluate a property condition against frontmatter.
+     * List properties match positive operators when any item matches;
+     * negative operators (not_equals, not_contains) require that no item matches.
+     */
+    matchesPropertyCondition(frontmatter: Record<string, any> | undefined, condition: PropertyCondition): boolean {
+        const actual = frontmatter ? frontmatter[condition.key] : undefined;
+        const present = actual !== undefined && actual !== null && actual !== ''
+            && !(Array.isArray(actual) && actual.length === 0);
+        const expected = condition.value ?? '';
+
+        switch (condition.operator) {
+            case 'exists':
+                return present;
+            case 'not_exists':
+                return !present;
+            case 'not_equals':
+                return !this.matchesPropertyCondition(frontmatter, { ...condition, operator: 'equals' });
+            case 'not_contains':
+                return !this.matchesPropertyCondition(frontmatter, { ...condition, operator: 'contains' });
+        }
+
+        if (!present) {
+            return false;
+        }
+
+        const values: any[] = Array.isArray(actual) ? actual : [actual];
+
+        switch (condition.operator) {
+            case 'equals':
+                return values.some(v => this.stringifyProperty(v) === expected.trim());
+            case 'contains': {
+                const needle = expected.trim().toLowerCase();
+                return values.some(v => this.stringifyProperty(v).toLowerCase().includes(needle));
+            }
+            case 'gt':
+            case 'gte':
+            case 'lt':
+            case 'lte': {
+                const threshold = parseFloat(expected);
+                if (isNaN(threshold)) return false;
+                return values.some(v => {
+                    const n = typeof v === 'number' ? v : parseFloat(String(v));
+                    if (isNaN(n)) return false;
+                    switch (condition.operator) {
+                        case 'gt': return n > threshold;
+                        case 'gte': return n >= threshold;
+                        case 'lt': return n < threshold;
+                        default: return n <= threshold;
+                    }
+                });
+            }
+            case 'date_before':
+            case 'date_after':
+            case 'date_on': {
+                const reference = this.parseConditionDate(expected);
+                if (!reference) return false;
+                return values.some(v => {
+                    const date = this.parseConditionDate(v);
+                    if (!date) return false;
+                    if (condition.operator === 'date_before') return date.isBefore(reference, 'day');
+                    if (condition.operator === 'date_after') return date.isAfter(reference, 'day');
+                    return date.isSame(reference, 'day');
+                });
+            }
+            default:
+                return false;
+        }
+    }
+
+    private stringifyProperty(value: any): string {
+        if (value === null || value === undefined) return '';
+        if (typeof value === 'object') return JSON.stringify(value);
+        return String(value).trim();
+    }
+
+    /**
+     * Parse a condition date; accepts "today" and anything moment parses.
+     */
+    private parseConditionDate(value: any): moment.Moment | null {
+        if (value === null || value === undefined || value === '') return null;
+        if (typeof value === 'string' && value.trim().toLowerCase() === 'today') {
+            return moment().startOf('day');
+        }
+        const parsed = typeof value === 'string'
+            ? moment(value.trim(), [moment.ISO_8601, 'YYYY-MM-DD', 'DD-MM-YYYY', 'MM/DD/YYYY', 'YYYY.MM.DD'], true)
+            : moment(value);
+        return parsed.isValid() ? parsed : null;
+    }
+
+    /**
+     * Validate a property condition, returning error messages
+     */
+    private validatePropertyCondition(condition: PropertyCondition, label: string): string[] {
+        const errors: string[] = [];
+        if (!condition.key) {
+            errors.push(`${label} has no property name`);
+        }
+
+        const operator = CONDITION_OPERATORS[condition.operator];
+        if (!operator) {
+            errors.push(`${label} has unknown operator "${condition.operator}"`);
+            return errors;
+        }
+
+        const value = condition.value?.trim() ?? '';
+        if (operator.valueKind !== 'none' && value === '') {
+            errors.push(`${label} "${condition.key}" needs a value for "${operator.label}"`);
+        } else if (operator.valueKind === 'number' && isNaN(parseFloat(value))) {
+            errors.push(`${label} "${condition.key}" needs a numeric value for "${operator.label}"`);
+        } else if (operator.valueKind === 'date' && !this.parseConditionDate(value)) {
+            errors.push(`${label} "${condition.key}" has an invalid date "${value}"`);
+        }
+        return errors;
+    }
+
+    /**
+     * Convert legacy single targetTag/targetFolder fields into a criteria tree.
+     * Returns the rule unchanged when it already has criteria or nothing to migrate.
+     */
+    static migrateRule(rule: Rule): Rule {
+        if (rule.targetCriteria || (!rule.targetTag && !rule.targetFolder)) {
+            return rule;
+        }
+
+        const { targetTag, targetFolder, ...rest } = rule;
+        const children: CriteriaNode[] = [];
+        if (targetTag) {
+            children.push({ type: 'tag', tag: targetTag });
+        } else if (targetFolder) {
+            // Legacy matching used the tag when both were set
+            children.push({ type: 'folder', folder: targetFolder });
+        }
+
+        return { ...rest, targetCriteria: { type: 'and', children } };
+    }
+
+    /**
+     * Human-readable summary of a criteria tree, e.g. "#movie AND in Media AND NOT #abandoned"
+     */
+    static describeCriteria(node: CriteriaNode | undefined): string {
+        if (!node) {
+            return 'all notes';
+        }
+
+        switch (node.type) {
+            case 'and':
+            case 'or': {
+                if (node.children.length === 0) {
+                    return node.type === 'and' ? 'all notes' : 'no notes';
+                }
+                const parts = node.children.map(child => {
+                    const text = RuleEngine.describeCriteria(child);
+                    return (child.type === 'and' || child.type === 'or') && child.children.length > 1 ? `(${text})` : text;
+                });
+                return parts.join(node.type === 'and' ? ' AND ' : ' OR ');
+            }
+            case 'not':
+                return `NOT ${RuleEngine.describeCriteria(node.child)}`;
+            case 'tag':
+                return node.tag ? (node.includeNested ? `${node.tag} (incl. nested)` : node.tag) : '(empty tag)';
+            case 'folder':
+                return `in ${node.folder.replace(/\/\*+$/, '') || '/'}`;
+            case 'property': {
+                const operator = node.operator ?? (node.value ? 'equals' : 'exists');
+                const symbol = CONDITION_OPERATORS[operator]?.symbol ?? operator;
+                return CONDITION_OPERATORS[operator]?.valueKind === 'none'
+                    ? `${node.key} ${symbol}`
+                    : `${node.key} ${symbol} ${node.value ?? ''}`;
+            }
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * Check if file has a tag matching the given tag or pattern.
+     * Matching is case-insensitive like Obsidian's tag search. Patterns may use
+     * * (within one tag level) and ** (across levels), e.g. "#media/*".
+     * With includeNested, "#media" also matches "#media/movie".
+     */
+    private fileHasTag(file: TFile, tag: string, includeNested = false): boolean {
+        const fileTags = this.getFileTags(file);
+        if (fileTags.length === 0) {
             return false;
         }
 
         // Remove # from tag if present
-        const cleanTag = tag.startsWith('#') ? tag.slice(1) : tag;
+        const cleanTag = (tag.startsWith('#') ? tag.slice(1) : tag).trim().toLowerCase();
+
+        if (cleanTag.includes('*')) {
+            return fileTags.some(fileTag => this.matchesGlobPattern(cleanTag, fileTag));
+        }
+
+        return fileTags.some(fileTag =>
+            fileTag === cleanTag || (includeNested && fileTag.startsWith(cleanTag + '/'))
+        );
+    }
 
-        // Check frontmatter tags
-        if (cache.frontmatter?.tags) {
-            const frontmatterTags = Array.isArray(cache.frontmatter.tags)
-                ? cache.frontmatter.tags
-                : [cache.frontmatter.tags];
+    /**
+     * Collect a file's frontmatter and inline tags, lowercased and without #.
+     * Frontmatter tags may be a list or a comma/space-separated string.
+     */
+    private getFileTags(file: TFile): string[] {
+        const cache = this.app.metadataCache.getFileCache(file);
 
-            if (frontmatterTags.some((t: string) => t === cleanTag)) {
-                return true;
+        if (!cache) {
+            return [];
+        }
+
+        const tags: string[] = [];
+        const addTag = (raw: unknown) => {
+            if (raw === null || raw === undefined) return;
+            const clean = String(raw).trim().replace(/^#/, '').toLowerCase();
+            if (clean) tags.push(clean);
+        };
+
+        // Check frontmatter tags (Obsidian accepts both "tags" and "tag")
+        for (const key of ['tags', 'tag']) {
+            const value = cache.frontmatter?.[key];
+            if (!value) continue;
+
+            const entries = Array.isArray(value) ? value : [value];
+            for (const entry of entries) {
+                if (typeof entry === 'string') {
+                    entry.split(/[,\s]+/).forEach(addTag);
+                } else {
+                    addTag(entry);
+                }
             }
         }
 
         // Check inline tags
         if (cache.tags) {
-            const hasInlineTag = cache.tags.some((tagCache: any) =>
-                tagCache.tag === `#${cleanTag}` || tagCache.tag === cleanTag
-            );
-            if (hasInlineTag) {
-                return true;
+            for (const tagCache of cache.tags) {
+                addTag(tagCache.tag);
             }
         }
 
-        return false;
+        return tags;
     }
 
     /**
@@ -186,9 +507,12 @@ export class RuleEngine {
             errors.push('Update field is required');
         }
 
-        // Check that either targetTag or targetFolder is specified
-        if (!rule.targetTag && !rule.targetFolder) {
+        // Check target criteria
+        const criteria = RuleEngine.migrateRule(rule).targetCriteria;
+        if (!criteria || ((criteria.type === 'and' || criteria.type === 'or') && criteria.children.length === 0)) {
             warnings.push('No target criteria specified - rule will apply to all linked files');
+        } else {
+            this.validateCriteria(criteria, errors, warnings);
         }
 
         // Validate source pattern syntax
@@ -200,18 +524,41 @@ export class RuleEngine {
             }
         }
 
-        // Validate target folder pattern if specified
-        if (rule.targetFolder) {
+        // Validate field name (valid YAML key — allows hyphens)
+        if (rule.updateField && !/^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(rule.updateField)) {
+            errors.push('Update field must be a valid identifier (letters, numbers, underscore, hyphen)');
+        }
+
+        // Validate exclude patterns
+        for (const pattern of [...(rule.sourceExcludePatterns ?? []), ...(rule.targetExcludePatterns ?? [])]) {
             try {
-                this.matchesGlobPattern(rule.targetFolder, 'test/path');
+                this.matchesGlobPattern(pattern, 'test/path');
             } catch (e) {
-                errors.push(`Invalid target folder pattern: ${e instanceof Error ? e.message : String(e)}`);
+                errors.push(`Invalid exclude pattern "${pattern}": ${e instanceof Error ? e.message : String(e)}`);
             }
         }
 
-        // Validate field name (valid YAML key — allows hyphens)
-        if (rule.updateField && !/^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(rule.updateField)) {
-            errors.push('Update field must be a valid identifier (letters, numbers, underscore, hyphen)');
+        // Validate source property conditions
+        if (rule.sourceConditions) {
+            for (const condition of rule.sourceConditions) {
+                errors.push(...this.validatePropertyCondition(condition, 'Source condition'));
+            }
+        }
+
+        // Validate value template for custom value type
+        if (rule.valueType === 'custom') {
+            const templateError = TemplateRenderer.validate(rule.valueTemplate || '');
+            if (templateError) {
+                errors.push(templateError);
+            }
+        }
+
+        if (rule.valueType === 'copy_property' && !rule.sourceProperty?.trim()) {
+            errors.push('Source property is required for the Copy Property value type');
+        }
+
+        if (rule.valueType === 'inline_field' && !rule.inlineField?.trim()) {
+            errors.push('Inline field is required for the Inline Field value type');
         }
 
         // Validate priority
@@ -226,6 +573,53 @@ export class RuleEngine {
         };
     }
 
+    /**
+     * Validate each node of a criteria tree, collecting errors and warnings
+     */
+    private validateCriteria(node: CriteriaNode, errors: string[], warnings: string[]): void {
+        switch (node.type) {
+            case 'and':
+            case 'or':
+                if (node.children.length === 0) {
+                    warnings.push(`Empty ${node.type.toUpperCase()} group in target criteria`);
+                }
+                node.children.forEach(child => this.validateCriteria(child, errors, warnings));
+                break;
+            case 'not':
+                if (!node.child) {
+                    errors.push('NOT criterion has no condition');
+                } else {
+                    this.validateCriteria(node.child, errors, warnings);
+                }
+                break;
+            case 'tag':
+                if (!node.tag || node.tag === '#') {
+                    errors.push('Tag criterion is empty');
+                } else if (!node.tag.startsWith('#')) {
+                    errors.push(`Target tag "${node.tag}" must start with #`);
+                }
+                break;
+            case 'folder':
+                if (!node.folder) {
+                    errors.push('Folder criterion is empty');
+                } else {
+                    try {
+                        this.matchesGlobPattern(node.folder, 'test/path');
+                    } catch (e) {
+                        errors.push(`Invalid target folder pattern: ${e instanceof Error ? e.message : String(e)}`);
+                    }
+                }
+                break;
+            case 'property':
+                errors.push(...this.validatePropertyCondition({
+                    key: node.key,
+                    operator: node.operator ?? (node.value ? 'equals' : 'exists'),
+                    value: node.value
+                }, 'Target property condition'));
+                break;
+        }
+    }
+
     /**
      * Validate a set of rules for conflicts
      */
@@ -233,6 +627,14 @@ export class RuleEngine {
         const errors: string[] = [];
         const warnings: string[] = [];
 
+        // Validate each rule individually
+        for (const rule of rules) {
+            const result = this.validateRule(rule);
+            const label = rule.name || rule.id;
+            errors.push(...result.errors.map(error => `${label}: ${error}`));
+            warnings.push(...result.warnings.map(warning => `${label}: ${warning}`));
+        }
+
         // Check for duplicate IDs
         const ids = rules.map(r => r.id);
         const duplicateIds = ids.filter((id, index) => ids.indexOf(id) !== index);
@@ -272,7 +674,23 @@ export class RuleEngine {
         }
 
         // Same target criteria
-        if (rule1.targetTag !== rule2.targetTag || rule1.targetFolder !== rule2.targetFolder) {
+        const criteria1 = JSON.stringify(RuleEngine.migrateRule(rule1).targetCriteria ?? null);
+        const criteria2 = JSON.stringify(RuleEngine.migrateRule(rule2).targetCriteria ?? null);
+        if (criteria1 !== criteria2) {
+            return false;
+        }
+
+        // Same source conditions and exclusions
+        if (JSON.stringify(rule1.sourceConditions ?? []) !== JSON.stringify(rule2.sourceConditions ?? [])) {
+            return false;
+        }
+        if (JSON.stringify(rule1.sourceExcludePatterns ?? []) !== JSON.stringify(rule2.sourceExcludePatterns ?? [])
+            || JSON.stringify(rule1.targetExcludePatterns ?? []) !== JSON.stringify(rule2.targetExcludePatterns ?? [])) {
+            return false;
+        }
+
+        // Same link context
+        if (JSON.stringify(rule1.linkContext ?? null) !== JSON.stringify(rule2.linkContext ?? null)) {
             return false;
         }
 
@@ -293,13 +711,13 @@ export class RuleEngine {
     }
 
     /**
-     * Get all files that have a specific tag
+     * Get all files that have a specific tag (or tag pattern)
      */
-    getFilesWithTag(tag: string): TFile[] {
+    getFilesWithTag(tag: string, includeNested = false): TFile[] {
         const cleanTag = tag.startsWith('#') ? tag.slice(1) : tag;
 
         return this.app.vault.getMarkdownFiles()
-            .filter((file: TFile) => this.fileHasTag(file, cleanTag));
+            .filter((file: TFile) => this.fileHasTag(file, cleanTag, includeNested));
     }
 
     /**
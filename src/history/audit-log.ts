@@ -0,0 +1,144 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { AuditEntry } from '../types';
+
+const FLUSH_DELAY_MS = 1000;
+
+/**
+ * Append-only structured log of metadata updates, stored as JSONL either in the
+ * plugin folder or in a configurable vault note. Entries are buffered and flushed
+ * shortly after they are added.
+ */
+export class AuditLog {
+    private app: App;
+    private defaultPath: string;
+    private notePath = '';
+    private enabled = false;
+    private buffer: AuditEntry[] = [];
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(app: App, defaultPath: string) {
+        this.app = app;
+        this.defaultPath = defaultPath;
+    }
+
+    /**
+     * Update enablement and destination from plugin options.
+     * An empty note path stores the log in the plugin folder.
+     */
+    configure(enabled: boolean, notePath: string): void {
+        this.enabled = enabled;
+        this.notePath = notePath.trim() ? AuditLog.toLogFilePath(normalizePath(notePath.trim())) : '';
+    }
+
+    /**
+     * The vault path a configured log path is written to. Markdown (or extensionless) paths
+     * get a .jsonl extension: Obsidian indexes the [[...]] values in a markdown log as real
+     * links, which would make the log a backlink source of every target.
+     */
+    static toLogFilePath(path: string): string {
+        const name = path.substring(path.lastIndexOf('/') + 1);
+        if (name.toLowerCase().endsWith('.md')) {
+            return path.slice(0, -3) + '.jsonl';
+        }
+        return name.includes('.') ? path : `${path}.jsonl`;
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Whether a vault path is the log file itself (so its own writes can be ignored)
+     */
+    isLogFile(path: string): boolean {
+        return this.notePath !== '' && path === this.notePath;
+    }
+
+    append(entry: AuditEntry): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        this.buffer.push(entry);
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flushTimer = null;
+                this.flush();
+            }, FLUSH_DELAY_MS);
+        }
+    }
+
+    /**
+     * Write buffered entries to storage
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const lines = this.buffer.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+        this.buffer = [];
+
+        try {
+            if (this.notePath) {
+                const file = this.app.vault.getAbstractFileByPath(this.notePath);
+                if (file instanceof TFile) {
+                    await this.app.vault.append(file, lines);
+                } else {
+                    await this.ensureParentFolder(this.notePath);
+                    await this.app.vault.create(this.notePath, lines);
+                }
+            } else if (await this.app.vault.adapter.exists(this.defaultPath)) {
+                await this.app.vault.adapter.append(this.defaultPath, lines);
+            } else {
+                await this.app.vault.adapter.write(this.defaultPath, lines);
+            }
+        } catch (error) {
+            console.error('AuditLog: Failed to write audit log:', error);
+        }
+    }
+
+    /**
+     * Read all entries (including unflushed ones), oldest first. Lines that aren't JSON are skipped.
+     */
+    async read(): Promise<AuditEntry[]> {
+        await this.flush();
+
+        let content = '';
+        try {
+            if (this.notePath) {
+                const file = this.app.vault.getAbstractFileByPath(this.notePath);
+                if (file instanceof TFile) {
+                    content = await this.app.vault.read(file);
+                }
+            } else if (await this.app.vault.adapter.exists(this.defaultPath)) {
+                content = await this.app.vault.adapter.read(this.defaultPath);
+            }
+        } catch (error) {
+            console.error('AuditLog: Failed to read audit log:', error);
+        }
+
+        const entries: AuditEntry[] = [];
+        for (const line of content.split('\n')) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('{')) continue;
+            try {
+                entries.push(JSON.parse(trimmed));
+            } catch {
+                // Ignore malformed lines
+            }
+        }
+        return entries;
+    }
+
+    private async ensureParentFolder(path: string): Promise<void> {
+        const folder = path.split('/').slice(0, -1).join('/');
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import { App, TFile } from 'obsidian';
+import { JournalEntry, JournalOperation, OperationTrigger } from '../types';
+import { WriteScheduler } from '../processor/write-scheduler';
+
+const MAX_OPERATIONS = 50;
+
+/**
+ * Records the previous value of every field the plugin changes, grouped by operation
+ * (one modify event, one bulk run, ...), so operations can be undone later.
+ * Persisted as JSON in the plugin folder.
+ */
+export class UndoJournal {
+    private app: App;
+    private storagePath: string;
+    private writeScheduler: WriteScheduler;
+    private operations: JournalOperation[] = [];
+
+    constructor(app: App, storagePath: string, writeScheduler: WriteScheduler) {
+        this.app = app;
+        this.storagePath = storagePath;
+        this.writeScheduler = writeScheduler;
+    }
+
+    /**
+     * Load persisted operations (missing or unreadable journals start empty).
+     */
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.storagePath)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.storagePath));
+                this.operations = Array.isArray(data?.operations) ? data.operations : [];
+            }
+        } catch (error) {
+            console.error('UndoJournal: Failed to load journal:', error);
+            this.operations = [];
+        }
+    }
+
+    /**
+     * Start a new (uncommitted) operation.
+     */
+    createOperation(label: string, trigger: OperationTrigger): JournalOperation {
+        return {
+            id: `op-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            label,
+            trigger,
+            timestamp: new Date().toISOString(),
+            entries: []
+        };
+    }
+
+    /**
+     * Record a field change in an operation. Repeated changes to the same field
+     * keep the original previous value and the latest new value.
+     */
+    record(operation: JournalOperation, filePath: string, field: string, before: any, after: any): void {
+        const existing = operation.entries.find(entry => entry.filePath === filePath && entry.field === field);
+        if (existing) {
+            existing.after = after;
+            return;
+        }
+        operation.entries.push({ filePath, field, before, after });
+    }
+
+    /**
+     * Persist an operation if it changed anything.
+     * Committing an operation again (e.g. at each checkpoint of a bulk run) replaces the earlier copy.
+     */
+    async commit(operation: JournalOperation): Promise<void> {
+        const entries = operation.entries.filter(entry => JSON.stringify(entry.before) !== JSON.stringify(entry.after));
+        if (entries.length === 0) {
+            return;
+        }
+
+        const committed = { ...operation, entries: entries.map(entry => ({ ...entry })) };
+        const index = this.operations.findIndex(op => op.id === operation.id);
+        if (index !== -1) {
+            this.operations[index] = committed;
+        } else {
+            this.operations.push(committed);
+        }
+        if (this.operations.length > MAX_OPERATIONS) {
+            this.operations = this.operations.slice(-MAX_OPERATIONS);
+        }
+        await this.save();
+    }
+
+    /**
+     * Committed operations, newest first.
+     */
+    getOperations(): JournalOperation[] {
+        return [...this.operations].reverse();
+    }
+
+    /**
+     * Restore the previous values recorded in an operation.
+     * Fields whose current value no longer matches what the plugin wrote were edited
+     * since (by a person or a later operation) and are left untouched.
+     */
+    async undo(operation: JournalOperation): Promise<{ restored: number; conflicts: JournalEntry[] }> {
+        const byFile = new Map<string, JournalEntry[]>();
+        for (const entry of operation.entries) {
+            byFile.set(entry.filePath, [...(byFile.get(entry.filePath) ?? []), entry]);
+        }
+
+        let restored = 0;
+        const conflicts: JournalEntry[] = [];
+
+        for (const [filePath, entries] of byFile) {
+            const file = this.app.vault.getAbstractFileByPath(filePath);
+            if (!(file instanceof TFile)) {
+                conflicts.push(...entries);
+                continue;
+            }
+
+            await this.writeScheduler.runWrite(file, () => this.app.fileManager.processFrontMatter(file, (frontMatter: any) => {
+                for (const entry of entries) {
+                    if (JSON.stringify(frontMatter[entry.field]) !== JSON.stringify(entry.after)) {
+                        conflicts.push(entry);
+                        continue;
+                    }
+                    if (entry.before === undefined) {
+                        delete frontMatter[entry.field];
+                    } else {
+                        frontMatter[entry.field] = entry.before;
+                    }
+                    restored++;
+                }
+            }));
+        }
+
+        this.operations = this.operations.filter(op => op.id !== operation.id);
+        await this.save();
+
+        return { restored, conflicts };
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(this.storagePath, JSON.stringify({ operations: this.operations }));
+        } catch (error) {
+            console.error('UndoJournal: Failed to save journal:', error);
+        }
+    }
+}
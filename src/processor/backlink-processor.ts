@@ -1,27 +1,74 @@
-import { App, TFile, CachedMetadata, parseFrontMatterEntry } from 'obsidian';
-import { Rule, ProcessingContext, MetadataUpdate, ValueType, PluginOptions } from '../types';
+import { App, TFile, CachedMetadata, ReferenceCache, parseFrontMatterEntry, moment } from 'obsidian';
+import { Rule, ProcessingContext, MetadataUpdate, DateMergeMode, PluginOptions, TemplateContext, TemplateNoteContext, LinkContextFilter, PlannedChange, PlannedSource, JournalOperation, OperationTrigger, ProcessFileOptions, AGGREGATE_VALUE_TYPES, LINK_VALUE_TYPES } from '../types';
 import { DateExtractor } from '../utils/date-extractor';
+import { TemplateRenderer } from '../utils/template-renderer';
+import { LinkContextMatcher } from '../utils/link-context';
+import { InlineFieldParser } from '../utils/inline-fields';
+import { SnippetExtractor, DEFAULT_SNIPPET_LENGTH } from '../utils/snippet-extractor';
 import { RuleEngine } from '../engine/rule-engine';
+import { ChangePlan } from './change-plan';
+import { WriteScheduler } from './write-scheduler';
+import { BulkRunControl } from './bulk-run';
+import { CascadeGuard, CascadeContext } from './cascade-guard';
+import { UndoJournal } from '../history/undo-journal';
+import { AuditLog } from '../history/audit-log';
+import { BacklinkIndex, hashContent } from '../cache/backlink-index';
 
 const MAX_HISTORY_ENTRIES = 100;
 
+/**
+ * Who a frontmatter write is attributed to, for the dry-run plan, journal and audit log
+ */
+interface WriteAttribution {
+    rule?: Rule;
+    label?: string;
+    sourcePath?: string;
+}
+
+/**
+ * Frontmatter updates queued for one file, applied together in a single write
+ */
+interface PendingWrite {
+    file: TFile;
+    updates: { attribution: WriteAttribution; fn: (frontMatter: any) => void }[];
+}
+
 export class BacklinkProcessor {
     private app: App;
     private dateExtractor: DateExtractor;
     private ruleEngine: RuleEngine;
+    private templateRenderer: TemplateRenderer;
+    private linkContextMatcher = new LinkContextMatcher();
+    private inlineFieldParser = new InlineFieldParser();
+    private snippetExtractor = new SnippetExtractor();
     private processingQueue: Map<string, ReturnType<typeof setTimeout>> = new Map();
-
-    constructor(app: App, dateExtractor: DateExtractor, ruleEngine: RuleEngine) {
+    private plan: ChangePlan | null = null;
+    private journal: UndoJournal | null = null;
+    private auditLog: AuditLog | null = null;
+    private backlinkIndex: BacklinkIndex | null = null;
+    private operation: JournalOperation | null = null;
+    private writeScheduler: WriteScheduler;
+    private cascadeGuard = new CascadeGuard();
+    private cascade: CascadeContext | null = null;
+    private pendingWrites: Map<string, PendingWrite> = new Map();
+    private batchDepth = 0;
+    // Aggregate fields to recompute, keyed by target path and rule ID, with the sources that touched them
+    private pendingAggregates: Map<string, { targetFile: TFile; rule: Rule; sourcePaths: Set<string> }> = new Map();
+    private aggregateDepth = 0;
+
+    constructor(app: App, dateExtractor: DateExtractor, ruleEngine: RuleEngine, templateRenderer: TemplateRenderer) {
         this.app = app;
         this.dateExtractor = dateExtractor;
         this.ruleEngine = ruleEngine;
+        this.templateRenderer = templateRenderer;
+        this.writeScheduler = new WriteScheduler(app);
     }
 
     /**
      * Process a file with debouncing to handle rapid edits.
      * Captures file path (not TFile reference) to avoid stale references.
      */
-    scheduleProcessing(file: TFile, rules: Rule[], options: PluginOptions): void {
+    scheduleProcessing(file: TFile, rules: Rule[], options: PluginOptions, trigger: OperationTrigger = 'modify'): void {
         const filePath = file.path;
 
         // Clear existing timeout for this file
@@ -31,27 +78,91 @@ export class BacklinkProcessor {
 
         // Schedule new processing — re-resolve file by path at execution time
         const timeout = setTimeout(async () => {
+            this.processingQueue.delete(filePath);
             const currentFile = this.app.vault.getAbstractFileByPath(filePath);
-            if (currentFile instanceof TFile) {
-                await this.processFile(currentFile, rules, options);
+            if (!(currentFile instanceof TFile)) {
+                return;
             }
-            this.processingQueue.delete(filePath);
+
+            // Edits caused by an earlier run's writes are cascades; stop cycles and runaway chains
+            const cascade = trigger === 'modify'
+                ? this.cascadeGuard.begin(filePath, await this.app.vault.cachedRead(currentFile))
+                : { runId: `run-${Date.now()}`, chain: [filePath] };
+            if (!cascade) {
+                return;
+            }
+
+            const run = this.forOperation(`${trigger === 'rename' ? 'Rename' : 'Edit'} ${filePath}`, trigger);
+            run.cascade = cascade;
+            // Incremental for renames too: rewriteRenamedLinks has already moved the link-only values
+            await run.processFile(currentFile, rules, options, { incremental: true });
+            await run.commitOperation();
         }, options.debounceMs);
 
         this.processingQueue.set(filePath, timeout);
     }
 
     /**
-     * Process a file immediately (for bulk operations)
+     * Process a file immediately (for bulk operations).
+     * Incremental processing (edits and renames) re-applies link-only value types just to targets linked
+     * since the file was last processed; other value types may depend on the note's content.
+     * A run with only some of the rules leaves the index alone: retracting removed links for
+     * those rules and recording the file would make the other rules forget to retract them.
      */
-    async processFile(file: TFile, rules: Rule[], options: PluginOptions): Promise<void> {
+    async processFile(file: TFile, rules: Rule[], options: PluginOptions, fileOptions: ProcessFileOptions = {}): Promise<void> {
+        const { incremental = false, partialRules = false } = fileOptions;
+        const indexed = !partialRules && (this.backlinkIndex?.isIndexed(file.path) ?? false);
+        const { added, removed } = indexed && this.backlinkIndex
+            ? this.backlinkIndex.diffLinks(file.path, this.extractOutgoingLinks(file))
+            : { added: [], removed: [] };
+        const unchangedTargets = incremental && indexed
+            ? new Set(this.backlinkIndex?.get(file.path)?.outgoingLinks.filter(link => !added.includes(link)))
+            : undefined;
+
+        // Every rule's update to a target lands in one frontmatter write
+        await this.batchWrites(async () => {
+            await this.processFileLinks(file, rules, options, unchangedTargets);
+
+            // Retract from targets that were linked when the file was last processed but aren't any more
+            if (removed.length > 0) {
+                if (options.enableLogging) {
+                    console.log(`BacklinkProcessor: ${removed.length} link(s) removed from ${file.path}`);
+                }
+                await this.cleanupRemovedLinks(file, removed, rules, options);
+            }
+        });
+
+        if (this.backlinkIndex && !partialRules && rules.some(rule => rule.enabled && this.ruleEngine.matchesSourcePattern(rule, file))) {
+            const content = await this.app.vault.cachedRead(file);
+            if (this.plan) {
+                // A dry run leaves the index to applyPlannedChanges
+                this.plan.recordSource(file.path, this.extractOutgoingLinks(file), hashContent(content));
+            } else {
+                this.backlinkIndex.recordProcessed(file.path, this.extractOutgoingLinks(file), hashContent(content));
+            }
+        }
+    }
+
+    /**
+     * Rules applied once per link rather than on every edit: link-only value types, and
+     * copy_property appends, which would otherwise add the source's value again each time
+     */
+    private isLinkOnly(rule: Rule): boolean {
+        return LINK_VALUE_TYPES.includes(rule.valueType) || (rule.valueType === 'copy_property' && rule.copyMerge === 'append');
+    }
+
+    private async processFileLinks(file: TFile, rules: Rule[], options: PluginOptions, unchangedTargets?: Set<string>): Promise<void> {
         try {
             if (options.enableLogging) {
                 console.log(`BacklinkProcessor: Processing file: ${file.path}`);
             }
 
             // Extract outgoing links from the file
-            const outgoingLinks = this.extractOutgoingLinks(file);
+            const contextLinks = await this.extractContextLinks(file, rules);
+            const outgoingLinks = [...new Set([
+                ...this.extractOutgoingLinks(file),
+                ...Array.from(contextLinks.values()).flatMap(links => Array.from(links))
+            ])];
 
             if (options.enableLogging) {
                 console.log(`BacklinkProcessor: Found ${outgoingLinks.length} outgoing links`);
@@ -69,13 +180,36 @@ export class BacklinkProcessor {
                     continue; // Skip if not a valid file
                 }
 
-                await this.processFileLink(file, targetFile, rules, options);
+                await this.processFileLink(file, targetFile, rules, options, contextLinks, unchangedTargets);
             }
         } catch (error) {
             console.error(`Error processing file ${file.path}:`, error);
         }
     }
 
+    /**
+     * Resolve the targets each link-context-filtered rule may update from a source file.
+     * Keyed by rule ID; rules without a link context are absent.
+     */
+    private async extractContextLinks(file: TFile, rules: Rule[]): Promise<Map<string, Set<string>>> {
+        const contextLinks = new Map<string, Set<string>>();
+        const filteredRules = rules.filter(rule => rule.enabled && rule.linkContext && this.ruleEngine.matchesSourcePattern(rule, file));
+
+        if (filteredRules.length === 0) {
+            return contextLinks;
+        }
+
+        // Keyword filters need the line text, which the metadata cache doesn't hold
+        const needsContent = filteredRules.some(rule => (rule.linkContext?.keywords?.length ?? 0) > 0);
+        const content = needsContent ? await this.app.vault.cachedRead(file) : undefined;
+
+        for (const rule of filteredRules) {
+            contextLinks.set(rule.id, new Set(this.extractOutgoingLinks(file, rule.linkContext, content)));
+        }
+
+        return contextLinks;
+    }
+
     /**
      * Process a single link between source and target file
      */
@@ -83,10 +217,16 @@ export class BacklinkProcessor {
         sourceFile: TFile,
         targetFile: TFile,
         rules: Rule[],
-        options: PluginOptions
+        options: PluginOptions,
+        contextLinks?: Map<string, Set<string>>,
+        unchangedTargets?: Set<string>
     ): Promise<void> {
-        // Find applicable rules for this file combination
-        const applicableRules = this.ruleEngine.findApplicableRules(sourceFile, targetFile, rules);
+        // Find applicable rules for this file combination, honouring link context filters
+        // (link-only rules were already applied to targets that were linked before)
+        const unchanged = unchangedTargets?.has(targetFile.path) ?? false;
+        const applicableRules = this.ruleEngine.findApplicableRules(sourceFile, targetFile, rules)
+            .filter(rule => !rule.linkContext || (contextLinks?.get(rule.id)?.has(targetFile.path) ?? false))
+            .filter(rule => !(unchanged && this.isLinkOnly(rule)));
 
         if (options.enableLogging) {
             console.log(`BacklinkProcessor: Found ${applicableRules.length} applicable rules for ${sourceFile.path} -> ${targetFile.path}`);
@@ -115,14 +255,15 @@ export class BacklinkProcessor {
         options: PluginOptions
     ): Promise<void> {
         try {
+            // Counts and stats are recomputed from the whole backlink graph so they never drift,
+            // once per target after the batch's sources are processed
+            if (AGGREGATE_VALUE_TYPES.includes(rule.valueType)) {
+                this.queueAggregate(sourceFile, targetFile, rule);
+                return;
+            }
+
             // Create processing context
-            const context: ProcessingContext = {
-                sourceFile: sourceFile.path,
-                targetFile: targetFile.path,
-                extractedDate: this.dateExtractor.extractDate(sourceFile) || undefined,
-                extractedTitle: this.dateExtractor.extractTitle(sourceFile) || undefined,
-                rule
-            };
+            const context = await this.buildValueContext(sourceFile, targetFile, rule);
 
             // Generate the value to update
             const updateValue = this.generateUpdateValue(context, options);
@@ -141,6 +282,187 @@ export class BacklinkProcessor {
         }
     }
 
+    /**
+     * Mark a target's aggregate field for recomputing when the batch ends
+     */
+    private queueAggregate(sourceFile: TFile, targetFile: TFile, rule: Rule): void {
+        const key = `${targetFile.path}\n${rule.id}`;
+        const pending = this.pendingAggregates.get(key) ?? { targetFile, rule, sourcePaths: new Set<string>() };
+        pending.sourcePaths.add(sourceFile.path);
+        this.pendingAggregates.set(key, pending);
+    }
+
+    /**
+     * Recompute every queued aggregate field from the sources currently linking to its target
+     */
+    private async computePendingAggregates(): Promise<void> {
+        const pending = Array.from(this.pendingAggregates.values());
+        this.pendingAggregates.clear();
+
+        for (const { targetFile, rule, sourcePaths } of pending) {
+            try {
+                // Sources just processed may not be in resolvedLinks yet
+                const incoming = this.getIncomingLinks(targetFile).filter(file => !sourcePaths.has(file.path));
+                const processed = Array.from(sourcePaths)
+                    .map(path => this.app.vault.getAbstractFileByPath(path))
+                    .filter((file): file is TFile => file instanceof TFile);
+                const sources = await this.collectRuleSources(targetFile, rule, [...incoming, ...processed]);
+                const value = await this.computeAggregateValue(sources, targetFile, rule);
+                const sourcePath = processed.length > 0 ? processed[processed.length - 1].path : undefined;
+
+                await this.writeFrontMatter(targetFile, { rule, sourcePath }, (frontMatter: any) => {
+                    if (value === undefined) {
+                        delete frontMatter[rule.updateField];
+                    } else {
+                        frontMatter[rule.updateField] = value;
+                    }
+                });
+            } catch (error) {
+                console.error(`Error updating ${rule.updateField} on ${targetFile.path}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Recompute queued aggregates now, even inside a deferred run
+     */
+    private async flushAggregates(): Promise<void> {
+        if (this.pendingAggregates.size > 0) {
+            await this.batchWrites(() => this.computePendingAggregates());
+        }
+    }
+
+    /**
+     * Compute an aggregate value type from a target's sources (sorted oldest first).
+     * Undefined when there are no sources, so the field is removed.
+     */
+    private async computeAggregateValue(sources: TFile[], targetFile: TFile, rule: Rule): Promise<any> {
+        if (sources.length === 0) {
+            return undefined;
+        }
+
+        switch (rule.valueType) {
+            case 'count':
+                return sources.length;
+
+            case 'mention_count':
+                return await this.countMentions(sources, targetFile, rule);
+
+            case 'first_date':
+                return this.buildProcessingContext(sources[0], targetFile, rule).extractedDate;
+
+            case 'frequency': {
+                // Mentions per month across the span from the first to the latest source
+                const mentions = await this.countMentions(sources, targetFile, rule);
+                const days = (this.sourceTime(sources[sources.length - 1]) - this.sourceTime(sources[0])) / (24 * 60 * 60 * 1000);
+                const months = Math.max(1, days / 30.44);
+                return Math.round((mentions / months) * 100) / 100;
+            }
+
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Total links from the sources to the target that satisfy the rule's link context.
+     * A source linking only from its frontmatter counts once.
+     */
+    private async countMentions(sources: TFile[], targetFile: TFile, rule: Rule): Promise<number> {
+        const needsContent = (rule.linkContext?.keywords?.length ?? 0) > 0;
+        let total = 0;
+
+        for (const sourceFile of sources) {
+            const cache = this.app.metadataCache.getFileCache(sourceFile);
+            const lines = needsContent ? (await this.app.vault.cachedRead(sourceFile)).split('\n') : null;
+            const occurrences = cache ? this.findLinksToTarget(sourceFile, targetFile, rule, cache, lines).length : 0;
+            total += Math.max(1, occurrences);
+        }
+
+        return total;
+    }
+
+    /**
+     * Build the processing context for a source/target/rule combination
+     */
+    private buildProcessingContext(sourceFile: TFile, targetFile: TFile, rule: Rule): ProcessingContext {
+        return {
+            sourceFile: sourceFile.path,
+            targetFile: targetFile.path,
+            extractedDate: this.dateExtractor.extractDate(sourceFile) || undefined,
+            extractedTitle: this.dateExtractor.extractTitle(sourceFile) || undefined,
+            rule
+        };
+    }
+
+    /**
+     * Build the processing context, including the parts of the source's content
+     * that the rule's value type (or history snippets) need
+     */
+    private async buildValueContext(sourceFile: TFile, targetFile: TFile, rule: Rule): Promise<ProcessingContext> {
+        const context = this.buildProcessingContext(sourceFile, targetFile, rule);
+        const needsSnippet = rule.valueType === 'context_snippet' || !!rule.historySnippet;
+        if (rule.valueType !== 'inline_field' && !needsSnippet) {
+            return context;
+        }
+
+        const cache = this.app.metadataCache.getFileCache(sourceFile);
+        if (!cache) {
+            return context;
+        }
+        const content = await this.app.vault.cachedRead(sourceFile);
+        const lines = content.split('\n');
+        const links = this.findLinksToTarget(sourceFile, targetFile, rule, cache, lines);
+
+        if (rule.valueType === 'inline_field') {
+            context.inlineFieldValue = this.extractInlineField(links, cache, lines, rule);
+        }
+        if (needsSnippet && links.length > 0) {
+            // The first mention usually says the most about why the target is linked
+            const snippet = this.snippetExtractor.extract(content, cache, links[0], rule.snippetScope ?? 'sentence', rule.snippetLength ?? DEFAULT_SNIPPET_LENGTH);
+            context.snippet = snippet || undefined;
+        }
+        return context;
+    }
+
+    /**
+     * The source's body links (or embeds) that resolve to the target and satisfy the rule's link context
+     */
+    private findLinksToTarget(sourceFile: TFile, targetFile: TFile, rule: Rule, cache: CachedMetadata, lines: string[] | null): ReferenceCache[] {
+        const linkKind = rule.linkContext?.linkKind ?? 'links';
+        const refs = [
+            ...(linkKind !== 'embeds' ? cache.links ?? [] : []),
+            ...(linkKind !== 'links' ? cache.embeds ?? [] : [])
+        ];
+        return refs.filter(link => {
+            if (rule.linkContext && !this.linkContextMatcher.matches(link, cache, rule.linkContext, lines)) {
+                return false;
+            }
+            const resolvedFile = this.app.metadataCache.getFirstLinkpathDest(link.link, sourceFile.path);
+            return resolvedFile?.path === targetFile.path;
+        });
+    }
+
+    /**
+     * Value of the rule's inline field on the line or list item of the links to the target.
+     * When several links carry the field, the last one wins.
+     */
+    private extractInlineField(links: ReferenceCache[], cache: CachedMetadata, lines: string[], rule: Rule): any {
+        const key = rule.inlineField?.trim().toLowerCase();
+        if (!key) {
+            return undefined;
+        }
+
+        let value: any = undefined;
+        for (const link of links) {
+            const fields = this.inlineFieldParser.parse(this.linkContextMatcher.getItemText(cache, link.position.start.line, lines));
+            if (fields.has(key)) {
+                value = fields.get(key);
+            }
+        }
+        return value;
+    }
+
     /**
      * Generate the value to update based on the rule's value type
      */
@@ -168,11 +490,94 @@ export class BacklinkProcessor {
             case 'replace_link':
                 return `[[${context.sourceFile}]]`;
 
+            case 'copy_property': {
+                const key = context.rule.sourceProperty?.trim();
+                const sourceFile = this.app.vault.getAbstractFileByPath(context.sourceFile);
+                if (!key || !(sourceFile instanceof TFile)) {
+                    return null;
+                }
+                const value = this.app.metadataCache.getFileCache(sourceFile)?.frontmatter?.[key];
+                // Copy so later edits to the target can't alias the source's cached value
+                return value === undefined || value === null ? null : JSON.parse(JSON.stringify(value));
+            }
+
+            case 'inline_field':
+                return context.inlineFieldValue ?? null;
+
+            case 'context_snippet':
+                return context.snippet ?? null;
+
+            case 'custom': {
+                if (!context.rule.valueTemplate) {
+                    return null;
+                }
+                const sourceFile = this.app.vault.getAbstractFileByPath(context.sourceFile);
+                const targetFile = this.app.vault.getAbstractFileByPath(context.targetFile);
+                if (!(sourceFile instanceof TFile)) {
+                    return null;
+                }
+                const templateContext = this.buildTemplateContext(
+                    sourceFile,
+                    targetFile instanceof TFile ? targetFile : null,
+                    context
+                );
+                const rendered = this.templateRenderer.render(context.rule.valueTemplate, templateContext);
+                return rendered === '' ? null : rendered;
+            }
+
             default:
                 return null;
         }
     }
 
+    /**
+     * Build the placeholder context for a value template
+     */
+    buildTemplateContext(sourceFile: TFile, targetFile: TFile | null, context?: ProcessingContext): TemplateContext {
+        return {
+            date: context?.extractedDate ?? (this.dateExtractor.extractDate(sourceFile) || undefined),
+            title: context?.extractedTitle ?? (this.dateExtractor.extractTitle(sourceFile) || undefined),
+            now: moment().format(),
+            source: this.buildNoteContext(sourceFile),
+            target: targetFile ? this.buildNoteContext(targetFile) : {
+                path: '',
+                basename: '',
+                name: '',
+                link: '',
+                frontmatter: {}
+            }
+        };
+    }
+
+    private buildNoteContext(file: TFile): TemplateNoteContext {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        return {
+            path: file.path,
+            basename: file.basename,
+            name: file.name,
+            link: `[[${file.path}]]`,
+            frontmatter: frontmatter ? { ...frontmatter } : {}
+        };
+    }
+
+    /**
+     * Render a rule's value template against a sample source note (for the rule editor preview).
+     * Uses the first outgoing link that satisfies the rule's target criteria as the sample target.
+     */
+    renderTemplatePreview(rule: Rule, sourceFile: TFile): any {
+        let targetFile: TFile | null = null;
+        for (const linkPath of this.extractOutgoingLinks(sourceFile)) {
+            const candidate = this.app.vault.getAbstractFileByPath(linkPath);
+            if (candidate instanceof TFile && this.ruleEngine.matchesTargetCriteria(rule, candidate)) {
+                targetFile = candidate;
+                break;
+            }
+        }
+
+        const templateContext = this.buildTemplateContext(sourceFile, targetFile);
+        return this.templateRenderer.render(rule.valueTemplate || '', templateContext);
+    }
+
     /**
      * Update the target file's metadata
      */
@@ -183,9 +588,9 @@ export class BacklinkProcessor {
         context: ProcessingContext,
         options: PluginOptions
     ): Promise<void> {
-        await this.app.fileManager.processFrontMatter(targetFile, (frontMatter: any) => {
+        await this.writeFrontMatter(targetFile, { rule: context.rule, sourcePath: context.sourceFile }, (frontMatter: any) => {
             const currentValue = frontMatter[field];
-            const newValue = this.mergeValues(currentValue, value, context.rule.valueType, options);
+            const newValue = this.mergeValues(currentValue, value, context.rule, options);
 
             if (options.enableLogging) {
                 console.log(`BacklinkProcessor: Processing field ${field}, currentValue:`, currentValue, 'newValue:', newValue);
@@ -207,10 +612,315 @@ export class BacklinkProcessor {
     }
 
     /**
-     * Merge new value with existing value based on value type
+     * Write frontmatter, or simulate the write when this processor is a dry run.
+     * Inside batchWrites() the update is queued and applied with the file's other updates.
+     */
+    private async writeFrontMatter(file: TFile, attribution: WriteAttribution, fn: (frontMatter: any) => void): Promise<void> {
+        if (this.plan) {
+            const label = attribution.rule?.name ?? attribution.label ?? 'Update';
+            this.plan.simulate(file.path, label, attribution.sourcePath, this.app.metadataCache.getFileCache(file)?.frontmatter, fn);
+            return;
+        }
+
+        const pending = this.pendingWrites.get(file.path) ?? { file, updates: [] };
+        pending.updates.push({ attribution, fn });
+        this.pendingWrites.set(file.path, pending);
+
+        if (this.batchDepth === 0) {
+            await this.flushWrites();
+        }
+    }
+
+    /**
+     * Run a task with writes coalesced: each file gets one frontmatter write when it finishes
+     */
+    private async batchWrites<T>(task: () => Promise<T>): Promise<T> {
+        this.batchDepth++;
+        try {
+            const result = await task();
+            // Aggregates are computed once per target, after all of the batch's sources
+            // (bulk runs defer them further, see processFiles)
+            if (this.batchDepth === 1 && this.aggregateDepth === 0) {
+                await this.computePendingAggregates();
+            }
+            return result;
+        } finally {
+            this.batchDepth--;
+            if (this.batchDepth === 0) {
+                await this.flushWrites();
+            }
+        }
+    }
+
+    /**
+     * Apply queued updates, one serialized processFrontMatter call per file
+     */
+    private async flushWrites(): Promise<void> {
+        if (this.pendingWrites.size === 0) {
+            return;
+        }
+
+        const pending = Array.from(this.pendingWrites.values());
+        this.pendingWrites.clear();
+
+        // Writes outside an operation are journaled as their own operation
+        const [first] = pending;
+        const firstAttribution = first.updates[0].attribution;
+        const label = firstAttribution.rule?.name ?? firstAttribution.label ?? 'Update';
+        const operationLabel = pending.length === 1 ? `${label}: ${first.file.path}` : `${label}: ${pending.length} notes`;
+        const operation = this.operation ?? this.journal?.createOperation(operationLabel, 'manual') ?? null;
+        const tracking = operation !== null || (this.auditLog?.isEnabled() ?? false);
+
+        for (const { file, updates } of pending) {
+            try {
+                await this.writeScheduler.write(file, updates.map(update => (frontMatter: any) => {
+                    const before = tracking ? JSON.parse(JSON.stringify(frontMatter)) : null;
+                    update.fn(frontMatter);
+                    if (before) {
+                        this.recordChanges(operation, file.path, before, frontMatter, update.attribution);
+                    }
+                }));
+                if (this.cascade) {
+                    this.cascadeGuard.recordWrite(file.path, this.cascade, await this.app.vault.read(file));
+                }
+            } catch (error) {
+                console.error(`Error writing frontmatter to ${file.path}:`, error);
+            }
+        }
+
+        if (operation && operation !== this.operation) {
+            await this.journal?.commit(operation);
+        }
+    }
+
+    /**
+     * Journal and audit every field that differs between two frontmatter snapshots
+     */
+    private recordChanges(
+        operation: JournalOperation | null,
+        filePath: string,
+        before: Record<string, any>,
+        after: Record<string, any>,
+        attribution: WriteAttribution
+    ): void {
+        const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const field of fields) {
+            if (JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+            const newValue = after[field] === undefined ? undefined : JSON.parse(JSON.stringify(after[field]));
+
+            if (operation) {
+                this.journal?.record(operation, filePath, field, before[field], newValue);
+            }
+
+            this.auditLog?.append({
+                timestamp: new Date().toISOString(),
+                trigger: operation?.trigger ?? 'manual',
+                ruleId: attribution.rule?.id,
+                ruleName: attribution.rule?.name ?? attribution.label,
+                source: attribution.sourcePath,
+                target: filePath,
+                field,
+                oldValue: before[field],
+                newValue
+            });
+        }
+    }
+
+    /**
+     * Current frontmatter of a file, including changes simulated so far in a dry run
+     */
+    private readFrontMatter(file: TFile): Record<string, any> {
+        const cached = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (this.plan) {
+            return this.plan.getFrontMatter(file.path, cached);
+        }
+        return cached ?? {};
+    }
+
+    /**
+     * Set the journal that records plugin-made changes for undo
+     */
+    setJournal(journal: UndoJournal): void {
+        this.journal = journal;
+    }
+
+    /**
+     * Set the audit log that records every metadata update
+     */
+    setAuditLog(auditLog: AuditLog): void {
+        this.auditLog = auditLog;
+    }
+
+    /**
+     * The guard that stops update cycles and cascades (for settings and the validation UI)
+     */
+    getCascadeGuard(): CascadeGuard {
+        return this.cascadeGuard;
+    }
+
+    /**
+     * Whether a file's current state is the plugin's own write
+     */
+    isOwnWrite(file: TFile): boolean {
+        return this.writeScheduler.isOwnWrite(file);
+    }
+
+    /**
+     * Set the persisted index that records each source's links as last processed
+     */
+    setBacklinkIndex(backlinkIndex: BacklinkIndex): void {
+        this.backlinkIndex = backlinkIndex;
+    }
+
+    /**
+     * Set the scheduler that serializes frontmatter writes per file
+     * (shared with anything else that writes frontmatter, such as undo)
+     */
+    setWriteScheduler(writeScheduler: WriteScheduler): void {
+        this.writeScheduler = writeScheduler;
+    }
+
+    /**
+     * Create a processor sharing this one's components (but not its debounce queue)
+     */
+    private fork(): BacklinkProcessor {
+        const forked = new BacklinkProcessor(this.app, this.dateExtractor, this.ruleEngine, this.templateRenderer);
+        forked.journal = this.journal;
+        forked.auditLog = this.auditLog;
+        forked.writeScheduler = this.writeScheduler;
+        forked.backlinkIndex = this.backlinkIndex;
+        forked.cascadeGuard = this.cascadeGuard;
+        return forked;
+    }
+
+    /**
+     * Create a processor whose writes are grouped into one undoable operation.
+     * Call commitOperation() on it when the run finishes.
+     */
+    forOperation(label: string, trigger: OperationTrigger): BacklinkProcessor {
+        const run = this.fork();
+        run.operation = this.journal?.createOperation(label, trigger) ?? null;
+        return run;
+    }
+
+    /**
+     * Persist the operation so far, leaving it open (for checkpoints of long runs)
+     */
+    async checkpointOperation(): Promise<void> {
+        if (this.operation && this.journal) {
+            await this.journal.commit(this.operation);
+        }
+    }
+
+    /**
+     * Persist the operation started by forOperation()
+     */
+    async commitOperation(): Promise<void> {
+        if (this.operation && this.journal) {
+            await this.journal.commit(this.operation);
+        }
+        this.operation = null;
+    }
+
+    /**
+     * Create a processor that records planned frontmatter changes instead of writing them
+     */
+    createDryRun(): BacklinkProcessor {
+        const dryRun = this.fork();
+        dryRun.plan = new ChangePlan();
+        return dryRun;
+    }
+
+    /**
+     * Changes collected by a dry-run processor
+     */
+    getPlannedChanges(): PlannedChange[] {
+        return this.plan ? this.plan.getChanges() : [];
+    }
+
+    /**
+     * Sources processed by a dry-run processor
+     */
+    getPlannedSources(): PlannedSource[] {
+        return this.plan ? this.plan.getSources() : [];
+    }
+
+    /**
+     * Apply selected planned changes, one frontmatter write per file.
+     * Fields edited since the plan was made are skipped rather than overwritten.
+     * With a control, pauses and cancels between files.
+     * Planned sources are then recorded in the backlink index, except those whose changes
+     * were all deselected or not reached before a cancel (they're still unprocessed).
      */
-    private mergeValues(currentValue: any, newValue: any, valueType: ValueType, options: PluginOptions): any {
-        switch (valueType) {
+    async applyPlannedChanges(
+        changes: PlannedChange[],
+        sources: PlannedSource[],
+        onProgress?: (current: number, total: number, filePath: string) => void | Promise<void>,
+        control?: BulkRunControl
+    ): Promise<{ applied: number; skipped: number }> {
+        const byFile = new Map<string, PlannedChange[]>();
+        for (const change of changes) {
+            byFile.set(change.filePath, [...(byFile.get(change.filePath) ?? []), change]);
+        }
+
+        let applied = 0;
+        let skipped = 0;
+        let current = 0;
+
+        for (const [filePath, fileChanges] of byFile) {
+            if (control && !(await control.proceed())) {
+                break;
+            }
+            current++;
+
+            const file = this.app.vault.getAbstractFileByPath(filePath);
+            if (!(file instanceof TFile)) {
+                skipped += fileChanges.length;
+                continue;
+            }
+
+            const ruleNames = [...new Set(fileChanges.flatMap(change => change.rules))].join(', ');
+            await this.writeFrontMatter(file, { label: ruleNames || 'Apply preview' }, (frontMatter: any) => {
+                for (const change of fileChanges) {
+                    if (JSON.stringify(frontMatter[change.field]) !== JSON.stringify(change.before)) {
+                        skipped++;
+                        continue;
+                    }
+                    if (change.after === undefined) {
+                        delete frontMatter[change.field];
+                    } else {
+                        frontMatter[change.field] = change.after;
+                    }
+                    applied++;
+                }
+            });
+
+            if (onProgress) {
+                await onProgress(current, byFile.size, filePath);
+            }
+        }
+
+        if (this.backlinkIndex) {
+            const reached = new Set(Array.from(byFile.keys()).slice(0, current));
+            for (const source of sources) {
+                const selected = changes.filter(change => change.sources.includes(source.filePath));
+                // Sources without changes have nothing left to apply
+                if (!source.changed || (selected.length > 0 && selected.every(change => reached.has(change.filePath)))) {
+                    this.backlinkIndex.recordProcessed(source.filePath, source.outgoingLinks, source.contentHash);
+                }
+            }
+        }
+
+        return { applied, skipped };
+    }
+
+    /**
+     * Merge new value with existing value based on the rule's value type
+     */
+    private mergeValues(currentValue: any, newValue: any, rule: Rule, options: PluginOptions): any {
+        const dateMerge = rule.dateMerge ?? 'newest';
+
+        switch (rule.valueType) {
             case 'date': {
                 // Extract date strings for comparison
                 const currentDateStr = typeof currentValue === 'string' ? currentValue : null;
@@ -222,7 +932,7 @@ export class BacklinkProcessor {
                     const currentValid = !isNaN(currentDate.getTime());
                     const newValid = !isNaN(newDate.getTime());
 
-                    if (!currentValid || !newValid || newDate > currentDate) {
+                    if (!currentValid || !newValid || this.prefersNewDate(newDate, currentDate, dateMerge)) {
                         return newValid ? newDateStr : currentDateStr;
                     }
                     return currentDateStr;
@@ -249,7 +959,7 @@ export class BacklinkProcessor {
                     const currentValid = !isNaN(currentDate.getTime());
                     const newValid = !isNaN(newDate.getTime());
 
-                    if (!currentValid || !newValid || newDate > currentDate) {
+                    if (!currentValid || !newValid || this.prefersNewDate(newDate, currentDate, dateMerge)) {
                         return newValid ? newValue : currentValue;
                     }
                     return currentValue;
@@ -280,26 +990,72 @@ export class BacklinkProcessor {
                 }
 
             case 'replace_link':
+            case 'inline_field':
+            case 'context_snippet':
                 return newValue;
 
+            case 'copy_property': {
+                const mode = rule.copyMerge ?? 'replace';
+                if (mode === 'replace' || currentValue === undefined || currentValue === null) {
+                    return mode === 'replace' || Array.isArray(newValue) ? newValue : [newValue];
+                }
+                const current = Array.isArray(currentValue) ? currentValue : [currentValue];
+                const additions = Array.isArray(newValue) ? newValue : [newValue];
+                if (mode === 'append') {
+                    return [...current, ...additions];
+                }
+                const merged = [...current];
+                for (const item of additions) {
+                    if (!merged.some(existing => JSON.stringify(existing) === JSON.stringify(item))) {
+                        merged.push(item);
+                    }
+                }
+                return merged;
+            }
+
             default:
                 return newValue;
         }
     }
 
     /**
-     * Add entry to history tracking (capped at MAX_HISTORY_ENTRIES)
+     * Whether a valid new date replaces a valid current one under a rule's date merge mode
      */
-    private addToHistory(frontMatter: any, field: string, value: any, context: ProcessingContext): void {
-        // Use custom history field names for specific fields
-        let historyField: string;
+    private prefersNewDate(newDate: Date, currentDate: Date, dateMerge: DateMergeMode): boolean {
+        switch (dateMerge) {
+            case 'oldest':
+                return newDate < currentDate;
+            case 'overwrite':
+                return true;
+            default:
+                return newDate > currentDate;
+        }
+    }
+
+    /**
+     * History field name for a field (custom names for specific fields)
+     */
+    private getHistoryField(field: string): string {
         if (field === 'lastWatched') {
-            historyField = 'watchHistory';
+            return 'watchHistory';
         } else if (field === 'lastRead') {
-            historyField = 'readHistory';
-        } else {
-            historyField = `${field}History`;
+            return 'readHistory';
         }
+        return `${field}History`;
+    }
+
+    /**
+     * Whether a field's history stores bare dates rather than entry objects
+     */
+    private isDateHistoryField(field: string): boolean {
+        return field === 'lastWatched' || field === 'lastRead';
+    }
+
+    /**
+     * Add entry to history tracking (capped at MAX_HISTORY_ENTRIES)
+     */
+    private addToHistory(frontMatter: any, field: string, value: any, context: ProcessingContext): void {
+        const historyField = this.getHistoryField(field);
 
         if (!frontMatter[historyField]) {
             frontMatter[historyField] = [];
@@ -316,15 +1072,22 @@ export class BacklinkProcessor {
                 timestamp: new Date().toISOString(),
                 sourceContext: context.sourceFile
             };
+            if (context.rule.historySnippet && context.snippet) {
+                historyEntry.snippet = context.snippet;
+            }
         }
 
-        // Avoid duplicates for date fields
+        // Avoid duplicates for date fields, and re-recording a source's unchanged value
         if (field === 'lastWatched' || field === 'lastRead') {
             if (!frontMatter[historyField].includes(value)) {
                 frontMatter[historyField].push(historyEntry);
             }
         } else {
-            frontMatter[historyField].push(historyEntry);
+            const recorded = frontMatter[historyField].some((entry: any) =>
+                entry?.sourceContext === context.sourceFile && JSON.stringify(entry.value) === JSON.stringify(value));
+            if (!recorded) {
+                frontMatter[historyField].push(historyEntry);
+            }
         }
 
         // Cap history array size
@@ -334,24 +1097,37 @@ export class BacklinkProcessor {
     }
 
     /**
-     * Extract outgoing links from a file (body content + frontmatter)
+     * Extract outgoing links from a file (body content + frontmatter).
+     * With a link context filter, only link occurrences satisfying it count;
+     * keyword filters need the file content passed in.
      */
-    extractOutgoingLinks(file: TFile): string[] {
+    extractOutgoingLinks(file: TFile, filter?: LinkContextFilter, content?: string): string[] {
         const cache = this.app.metadataCache.getFileCache(file);
         const links: string[] = [];
+        const linkKind = filter?.linkKind ?? 'links';
+        const lines = content !== undefined ? content.split('\n') : null;
 
-        // Extract links from body content
-        if (cache?.links) {
-            for (const link of cache.links) {
-                const resolvedFile = this.app.metadataCache.getFirstLinkpathDest(link.link, file.path);
-                if (resolvedFile && resolvedFile instanceof TFile) {
-                    links.push(resolvedFile.path);
-                }
+        // Extract links (and embeds, if requested) from body content
+        const bodyRefs: ReferenceCache[] = [];
+        if (linkKind !== 'embeds' && cache?.links) {
+            bodyRefs.push(...cache.links);
+        }
+        if (linkKind !== 'links' && cache?.embeds) {
+            bodyRefs.push(...cache.embeds);
+        }
+
+        for (const link of bodyRefs) {
+            if (filter && cache && !this.linkContextMatcher.matches(link, cache, filter, lines)) {
+                continue;
+            }
+            const resolvedFile = this.app.metadataCache.getFirstLinkpathDest(link.link, file.path);
+            if (resolvedFile && resolvedFile instanceof TFile) {
+                links.push(resolvedFile.path);
             }
         }
 
-        // Extract links from frontmatter
-        if (cache?.frontmatter) {
+        // Extract links from frontmatter (they have no heading, list item or line context)
+        if (cache?.frontmatter && !this.linkContextMatcher.requiresBodyContext(filter)) {
             // Check frontmatterLinks if available (Obsidian 1.4+)
             if (cache.frontmatterLinks) {
                 for (const link of cache.frontmatterLinks) {
@@ -417,20 +1193,116 @@ export class BacklinkProcessor {
     }
 
     /**
-     * Process all files in the vault (for bulk operations).
-     * Yields to UI every batch to prevent freezing.
+     * Reconcile (and pull mode): recompute each applicable rule's field from every source currently
+     * linking to the target and write the fields that differ (removing those with no value), in a
+     * single write. Folds from scratch, so running it twice changes nothing the second time.
+     * Entry histories are left as they are; date histories are rebuilt from the sources.
+     * Returns the fields that changed.
      */
-    async processAllFiles(rules: Rule[], options: PluginOptions, onProgress?: (current: number, total: number) => void): Promise<void> {
-        const allFiles = this.app.vault.getMarkdownFiles();
+    async reconcileTarget(targetFile: TFile, rules: Rule[], options: PluginOptions): Promise<{ field: string; before: any; after: any }[]> {
+        const applicableRules = rules
+            .filter(rule => rule.enabled && this.ruleEngine.matchesTargetCriteria(rule, targetFile))
+            .sort((a, b) => a.priority - b.priority);
+
+        if (applicableRules.length === 0) {
+            return [];
+        }
+
+        const incoming = this.getIncomingLinks(targetFile);
+        const rebuilt = new Map<string, any>();
+
+        for (const rule of applicableRules) {
+            const sources = await this.collectRuleSources(targetFile, rule, incoming);
+            const current = rebuilt.has(rule.updateField) ? rebuilt.get(rule.updateField) : undefined;
+            const value = AGGREGATE_VALUE_TYPES.includes(rule.valueType)
+                ? await this.computeAggregateValue(sources, targetFile, rule)
+                : await this.foldSourceValues(sources, targetFile, rule, options, current);
+            rebuilt.set(rule.updateField, value);
+
+            // Date histories are plain date lists, so they can be derived from the sources too
+            const shouldPreserveHistory = rule.preserveHistory !== undefined ? rule.preserveHistory : options.preserveHistory;
+            if (shouldPreserveHistory && this.isDateHistoryField(rule.updateField)) {
+                rebuilt.set(this.getHistoryField(rule.updateField), this.collectSourceDates(sources, targetFile, rule));
+            }
+        }
+
+        // Skip the write entirely when nothing would change (keeps rebuilding idempotent)
+        const frontmatter = this.readFrontMatter(targetFile);
+        const changes: { field: string; before: any; after: any }[] = [];
+        for (const [field, value] of rebuilt) {
+            const after = value === undefined || (Array.isArray(value) && value.length === 0) ? undefined : value;
+            if (JSON.stringify(frontmatter[field] ?? null) !== JSON.stringify(after ?? null)) {
+                changes.push({ field, before: frontmatter[field], after });
+            }
+        }
+
+        if (changes.length === 0) {
+            return [];
+        }
+
+        if (options.enableLogging) {
+            console.log(`BacklinkProcessor: Rebuilding ${targetFile.path}, changed fields:`, changes.map(change => change.field));
+        }
+
+        await this.writeFrontMatter(targetFile, { label: applicableRules.map(rule => rule.name).join(', ') }, (frontMatter: any) => {
+            for (const change of changes) {
+                if (change.after === undefined) {
+                    delete frontMatter[change.field];
+                } else {
+                    frontMatter[change.field] = change.after;
+                }
+            }
+        });
+
+        return changes;
+    }
+
+    /**
+     * Reconcile the given rules across every target they could apply to.
+     * Targets are notes linked from a matching source, plus notes that still hold a rule's field.
+     */
+    async reconcileRules(
+        rulesToReconcile: Rule[],
+        options: PluginOptions,
+        onProgress?: (current: number, total: number) => void
+    ): Promise<number> {
+        const enabledRules = rulesToReconcile.filter(rule => rule.enabled);
+        const targetPaths = new Set<string>();
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const sourceRules = enabledRules.filter(rule => this.ruleEngine.matchesSourcePattern(rule, file));
+            if (sourceRules.length > 0) {
+                Object.keys(resolvedLinks[file.path] ?? {}).forEach(path => targetPaths.add(path));
+            }
+
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            if (frontmatter && enabledRules.some(rule => rule.updateField in frontmatter)) {
+                targetPaths.add(file.path);
+            }
+        }
+
+        const targets = Array.from(targetPaths)
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+
         let processed = 0;
+        let updated = 0;
         const BATCH_SIZE = 20;
 
-        for (const file of allFiles) {
-            await this.processFile(file, rules, options);
+        for (const target of targets) {
+            try {
+                const changed = await this.reconcileTarget(target, enabledRules, options);
+                if (changed.length > 0) {
+                    updated++;
+                }
+            } catch (error) {
+                console.error(`Error reconciling ${target.path}:`, error);
+            }
             processed++;
 
             if (onProgress) {
-                onProgress(processed, allFiles.length);
+                onProgress(processed, targets.length);
             }
 
             // Yield to UI every batch so it can repaint
@@ -438,44 +1310,208 @@ export class BacklinkProcessor {
                 await new Promise(resolve => setTimeout(resolve, 0));
             }
         }
+
+        return updated;
+    }
+
+    /**
+     * Incoming sources that satisfy a rule for a target (pattern, conditions and link context),
+     * sorted oldest first by extracted date so folding yields the latest value last.
+     */
+    private async collectRuleSources(targetFile: TFile, rule: Rule, incoming: TFile[]): Promise<TFile[]> {
+        const sources: TFile[] = [];
+
+        for (const sourceFile of incoming) {
+            if (sourceFile.path === targetFile.path) continue;
+            if (this.ruleEngine.findApplicableRules(sourceFile, targetFile, [rule]).length === 0) continue;
+
+            const content = (rule.linkContext?.keywords?.length ?? 0) > 0
+                ? await this.app.vault.cachedRead(sourceFile)
+                : undefined;
+            if (this.extractOutgoingLinks(sourceFile, rule.linkContext, content).includes(targetFile.path)) {
+                sources.push(sourceFile);
+            }
+        }
+
+        return this.sortByDate(sources);
+    }
+
+    /**
+     * Sort sources oldest first by extracted date (creation time when there is none)
+     */
+    private sortByDate(files: TFile[]): TFile[] {
+        return files.sort((a, b) => this.sourceTime(a) - this.sourceTime(b) || a.path.localeCompare(b.path));
+    }
+
+    /**
+     * A source's extracted date as a timestamp (creation time when there is none)
+     */
+    private sourceTime(file: TFile): number {
+        const time = new Date(this.dateExtractor.extractDate(file) || '').getTime();
+        return isNaN(time) ? file.stat.ctime : time;
+    }
+
+    /**
+     * Fold every source's generated value through mergeValues, starting from scratch
+     */
+    private async foldSourceValues(sources: TFile[], targetFile: TFile, rule: Rule, options: PluginOptions, initial?: any): Promise<any> {
+        let value = initial;
+        for (const sourceFile of sources) {
+            const context = await this.buildValueContext(sourceFile, targetFile, rule);
+            const update = this.generateUpdateValue(context, options);
+            if (update === null || update === undefined) continue;
+            value = this.mergeValues(value, update, rule, options);
+        }
+        return value;
+    }
+
+    /**
+     * Unique extracted dates of the sources, in source order (capped at MAX_HISTORY_ENTRIES)
+     */
+    private collectSourceDates(sources: TFile[], targetFile: TFile, rule: Rule): string[] {
+        const dates: string[] = [];
+        for (const sourceFile of sources) {
+            const date = this.buildProcessingContext(sourceFile, targetFile, rule).extractedDate;
+            if (date && !dates.includes(date)) {
+                dates.push(date);
+            }
+        }
+        return dates.slice(-MAX_HISTORY_ENTRIES);
+    }
+
+    /**
+     * Process all files in the vault (for bulk operations).
+     * Yields to UI every batch to prevent freezing.
+     */
+    async processAllFiles(rules: Rule[], options: PluginOptions, onProgress?: (current: number, total: number) => void): Promise<void> {
+        await this.processFiles(this.app.vault.getMarkdownFiles(), rules, options, onProgress);
+    }
+
+    /**
+     * Process the given files in order, yielding to the UI every batch.
+     * With a control, waits while paused and stops when cancelled.
+     * Returns the number of files processed.
+     */
+    async processFiles(
+        files: TFile[],
+        rules: Rule[],
+        options: PluginOptions,
+        onProgress?: (current: number, total: number, file: TFile) => void | Promise<void>,
+        control?: BulkRunControl,
+        fileOptions?: ProcessFileOptions
+    ): Promise<number> {
+        let processed = 0;
+        const BATCH_SIZE = 20;
+
+        // Many sources share popular targets, so their aggregates are recomputed once per
+        // batch of files rather than once per source (and before every checkpoint or pause)
+        this.aggregateDepth++;
+        try {
+            for (const file of files) {
+                if (control && !(await control.proceed())) {
+                    break;
+                }
+
+                await this.processFile(file, rules, options, fileOptions);
+                processed++;
+
+                if (processed % BATCH_SIZE === 0 || control?.isPaused()) {
+                    await this.flushAggregates();
+                }
+
+                if (onProgress) {
+                    await onProgress(processed, files.length, file);
+                }
+
+                // Yield to UI every batch so it can repaint
+                if (processed % BATCH_SIZE === 0) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+            }
+        } finally {
+            this.aggregateDepth--;
+            await this.flushAggregates();
+        }
+
+        return processed;
     }
 
     /**
-     * Clean up metadata when links are removed
+     * Clean up metadata when links are removed (or their source note is deleted).
+     * For a deleted source, pass its last metadata: the cache has already dropped it,
+     * and rule matching and the source's date depend on its frontmatter.
      */
-    async cleanupRemovedLinks(sourceFile: TFile, removedLinks: string[], rules: Rule[], options: PluginOptions): Promise<void> {
+    async cleanupRemovedLinks(
+        sourceFile: TFile,
+        removedLinks: string[],
+        rules: Rule[],
+        options: PluginOptions,
+        sourceCache?: CachedMetadata | null
+    ): Promise<void> {
         if (!options.updateOnDelete) {
             return;
         }
 
-        for (const linkPath of removedLinks) {
-            const targetFile = this.app.vault.getAbstractFileByPath(linkPath);
-            if (!(targetFile instanceof TFile)) continue;
+        await this.batchWrites(async () => {
+            for (const linkPath of removedLinks) {
+                const targetFile = this.app.vault.getAbstractFileByPath(linkPath);
+                if (!(targetFile instanceof TFile)) continue;
 
-            const applicableRules = this.ruleEngine.findApplicableRules(sourceFile, targetFile, rules);
+                const applicableRules = this.ruleEngine.findApplicableRules(sourceFile, targetFile, rules, sourceCache);
 
-            for (const rule of applicableRules) {
-                await this.removeFromMetadata(targetFile, rule.updateField, sourceFile.path, rule.valueType);
+                for (const rule of applicableRules) {
+                    await this.removeFromMetadata(targetFile, rule, sourceFile, options, sourceCache);
+                }
             }
-        }
+        });
     }
 
     /**
-     * Remove specific values from metadata
+     * Retract a source's contribution to a target: remove its links and history entries,
+     * and recompute date values it set from the sources that still link to the target
      */
     private async removeFromMetadata(
         targetFile: TFile,
-        field: string,
-        sourceFilePath: string,
-        valueType: ValueType
+        rule: Rule,
+        sourceFile: TFile,
+        options: PluginOptions,
+        sourceCache?: CachedMetadata | null
     ): Promise<void> {
-        await this.app.fileManager.processFrontMatter(targetFile, (frontMatter: any) => {
-            const currentValue = frontMatter[field];
-            if (currentValue === undefined) return;
+        const field = rule.updateField;
+        const historyField = this.getHistoryField(field);
+        const linkToRemove = `[[${sourceFile.path}]]`;
+        const sourceDate = this.dateExtractor.extractDate(sourceFile, sourceCache);
+
+        // Date values don't record their source, so they're rebuilt from the remaining sources
+        const aggregate = AGGREGATE_VALUE_TYPES.includes(rule.valueType);
+        const recompute = aggregate || rule.valueType === 'date' || rule.valueType === 'date_and_title';
+        const dateHistory = this.isDateHistoryField(field);
+        let remaining: TFile[] = [];
+        if (recompute || dateHistory) {
+            const incoming = this.getIncomingLinks(targetFile).filter(file => file.path !== sourceFile.path);
+            remaining = await this.collectRuleSources(targetFile, rule, incoming);
+        }
+        const recomputed = aggregate
+            ? await this.computeAggregateValue(remaining, targetFile, rule)
+            : recompute ? await this.foldSourceValues(remaining, targetFile, rule, options) : undefined;
+        const remainingDates = dateHistory ? this.collectSourceDates(remaining, targetFile, rule) : [];
 
-            const linkToRemove = `[[${sourceFilePath}]]`;
+        await this.writeFrontMatter(targetFile, { rule, sourcePath: sourceFile.path }, (frontMatter: any) => {
+            const currentValue = frontMatter[field];
 
-            if (Array.isArray(currentValue)) {
+            if (currentValue !== undefined && recompute) {
+                // Only recompute values this source set, so other rules' or manual values survive
+                // (aggregates always include every source)
+                const isEntry = typeof currentValue === 'object' && currentValue !== null && !Array.isArray(currentValue);
+                const contributed = aggregate || (isEntry ? currentValue.source === linkToRemove : currentValue === sourceDate);
+                if (contributed) {
+                    if (recomputed === undefined || recomputed === null) {
+                        delete frontMatter[field];
+                    } else {
+                        frontMatter[field] = recomputed;
+                    }
+                }
+            } else if (Array.isArray(currentValue)) {
                 frontMatter[field] = currentValue.filter((item: any) => {
                     if (typeof item === 'string') {
                         return item !== linkToRemove;
@@ -492,7 +1528,99 @@ export class BacklinkProcessor {
             } else if (currentValue === linkToRemove) {
                 delete frontMatter[field];
             }
+
+            // Drop history entries from this source (dates only if no remaining source shares them)
+            const history = frontMatter[historyField];
+            if (Array.isArray(history)) {
+                const filtered = dateHistory
+                    ? history.filter((entry: any) => entry !== sourceDate || remainingDates.includes(entry))
+                    : history.filter((entry: any) => !(entry && typeof entry === 'object' && entry.sourceContext === sourceFile.path));
+                if (filtered.length === 0) {
+                    delete frontMatter[historyField];
+                } else if (filtered.length !== history.length) {
+                    frontMatter[historyField] = filtered;
+                }
+            }
+        });
+    }
+
+    /**
+     * Rewrite plugin-managed values that point at a renamed note: links in rule fields
+     * (including date_and_title sources and template output) and history sourceContext paths.
+     * Candidates are the notes the renamed note links to, plus the note itself.
+     * Returns the number of notes updated.
+     */
+    async rewriteRenamedLinks(oldPath: string, newPath: string, rules: Rule[], options: PluginOptions): Promise<number> {
+        const fields = new Set<string>();
+        for (const rule of rules) {
+            fields.add(rule.updateField);
+            fields.add(this.getHistoryField(rule.updateField));
+        }
+
+        const candidates = new Set<string>([
+            newPath,
+            ...(this.backlinkIndex?.get(newPath)?.outgoingLinks ?? []),
+            ...Object.keys(this.app.metadataCache.resolvedLinks[newPath] ?? {})
+        ]);
+
+        let updated = 0;
+
+        await this.batchWrites(async () => {
+            for (const path of candidates) {
+                const targetFile = this.app.vault.getAbstractFileByPath(path);
+                if (!(targetFile instanceof TFile)) continue;
+
+                // Check the cached frontmatter first so unaffected notes aren't written
+                const frontmatter = this.readFrontMatter(targetFile);
+                const affected = Array.from(fields).filter(field =>
+                    field in frontmatter &&
+                    JSON.stringify(this.rewritePath(frontmatter[field], oldPath, newPath)) !== JSON.stringify(frontmatter[field])
+                );
+                if (affected.length === 0) continue;
+
+                if (options.enableLogging) {
+                    console.log(`BacklinkProcessor: Rewriting ${oldPath} -> ${newPath} in ${path}:`, affected);
+                }
+
+                updated++;
+                await this.writeFrontMatter(targetFile, { label: 'Rename', sourcePath: newPath }, (frontMatter: any) => {
+                    for (const field of affected) {
+                        if (frontMatter[field] !== undefined) {
+                            frontMatter[field] = this.rewritePath(frontMatter[field], oldPath, newPath);
+                        }
+                    }
+                });
+            }
         });
+
+        return updated;
+    }
+
+    /**
+     * Replace links to oldPath (with or without the .md extension, aliased or not)
+     * and sourceContext paths inside a frontmatter value
+     */
+    private rewritePath(value: any, oldPath: string, newPath: string): any {
+        if (typeof value === 'string') {
+            const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const oldBase = oldPath.replace(/\.md$/, '');
+            const newBase = newPath.replace(/\.md$/, '');
+            const pattern = new RegExp(`\\[\\[${escape(oldBase)}(\\.md)?(?=[\\]|#])`, 'g');
+            return value.replace(pattern, (_match, extension) => `[[${extension ? newPath : newBase}`);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.rewritePath(item, oldPath, newPath));
+        }
+        if (value && typeof value === 'object') {
+            const rewritten: Record<string, any> = {};
+            for (const [key, item] of Object.entries(value)) {
+                rewritten[key] = key === 'sourceContext' && item === oldPath
+                    ? newPath
+                    : this.rewritePath(item, oldPath, newPath);
+            }
+            return rewritten;
+        }
+        return value;
     }
 
     /**
@@ -0,0 +1,59 @@
+/**
+ * Pause, resume and cancel state for a long-running bulk run.
+ * The run calls proceed() between files; it waits while paused.
+ */
+export class BulkRunControl {
+    private paused = false;
+    private cancelled = false;
+    private waiters: (() => void)[] = [];
+    private onPause: (() => void) | null = null;
+
+    /**
+     * Set a callback for when the run is paused (e.g. to save a checkpoint)
+     */
+    setPauseHandler(handler: () => void): void {
+        this.onPause = handler;
+    }
+
+    pause(): void {
+        if (!this.cancelled && !this.paused) {
+            this.paused = true;
+            this.onPause?.();
+        }
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.release();
+    }
+
+    cancel(): void {
+        this.cancelled = true;
+        this.paused = false;
+        this.release();
+    }
+
+    isPaused(): boolean {
+        return this.paused;
+    }
+
+    isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    /**
+     * Wait while paused. Resolves to false once the run has been cancelled.
+     */
+    async proceed(): Promise<boolean> {
+        while (this.paused) {
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+        return !this.cancelled;
+    }
+
+    private release(): void {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+}
@@ -0,0 +1,107 @@
+import { hashContent } from '../cache/backlink-index';
+
+// How long after a plugin write a modify of that note counts as a cascade
+const CASCADE_WINDOW_MS = 60 * 1000;
+const MAX_ISSUES = 20;
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/;
+
+/**
+ * The run a processing pass belongs to, and the chain of sources that led to it
+ */
+export interface CascadeContext {
+    runId: string;
+    chain: string[];
+}
+
+/**
+ * Backstop for modify events the plugin's own writes cause when self-write suppression
+ * misses them (e.g. another plugin reformats a note right after we write it).
+ * Tracks which run last wrote each note, stops cycles, and caps cascaded updates per run.
+ * Only a modify that leaves the note's body as we wrote it counts as a cascade; a body
+ * change is a user edit and starts a new run.
+ */
+export class CascadeGuard {
+    private writes: Map<string, { context: CascadeContext; time: number; bodyHash: number }> = new Map();
+    private cascadeCounts: Map<string, { count: number; time: number }> = new Map();
+    private issues: string[] = [];
+    private maxCascadeUpdates = 10;
+    private onIssue: ((message: string) => void) | null = null;
+
+    setMaxCascadeUpdates(max: number): void {
+        this.maxCascadeUpdates = max;
+    }
+
+    /**
+     * Set a callback for when a cascade is stopped
+     */
+    setIssueHandler(handler: (message: string) => void): void {
+        this.onIssue = handler;
+    }
+
+    /**
+     * Context for processing a modified source: a new run, or a cascade of the run
+     * that recently wrote it. Returns null when processing must be skipped.
+     */
+    begin(path: string, content: string): CascadeContext | null {
+        this.prune();
+
+        // A changed body means the note was edited since our write, not just reformatted
+        const origin = this.writes.get(path);
+        if (!origin || origin.bodyHash !== this.hashBody(content)) {
+            this.writes.delete(path);
+            return { runId: `run-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`, chain: [path] };
+        }
+
+        const { runId, chain } = origin.context;
+        if (chain.includes(path)) {
+            this.report(`Cycle detected: ${[...chain, path].join(' → ')}`);
+            return null;
+        }
+
+        const count = (this.cascadeCounts.get(runId)?.count ?? 0) + 1;
+        if (count > this.maxCascadeUpdates) {
+            this.report(`Cascade limit of ${this.maxCascadeUpdates} reached for updates starting at ${chain[0]} (stopped at ${path})`);
+            return null;
+        }
+        this.cascadeCounts.set(runId, { count, time: Date.now() });
+
+        return { runId, chain: [...chain, path] };
+    }
+
+    /**
+     * Remember that a run wrote a note, and the body it left
+     */
+    recordWrite(path: string, context: CascadeContext, content: string): void {
+        this.writes.set(path, { context, time: Date.now(), bodyHash: this.hashBody(content) });
+    }
+
+    /**
+     * Recent cycles and cascade limit hits, newest last
+     */
+    getIssues(): string[] {
+        return [...this.issues];
+    }
+
+    private report(message: string): void {
+        console.warn(`CascadeGuard: ${message}`);
+        this.issues.push(`${new Date().toLocaleTimeString()}: ${message}`);
+        if (this.issues.length > MAX_ISSUES) {
+            this.issues = this.issues.slice(-MAX_ISSUES);
+        }
+        this.onIssue?.(message);
+    }
+
+    private hashBody(content: string): number {
+        return hashContent(content.replace(FRONTMATTER_PATTERN, ''));
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - CASCADE_WINDOW_MS;
+        for (const [path, write] of this.writes) {
+            if (write.time < cutoff) this.writes.delete(path);
+        }
+        for (const [runId, entry] of this.cascadeCounts) {
+            if (entry.time < cutoff) this.cascadeCounts.delete(runId);
+        }
+    }
+}
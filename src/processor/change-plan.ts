@@ -0,0 +1,110 @@
+import { PlannedChange, PlannedSource } from '../types';
+
+/**
+ * Collects frontmatter changes during a dry run instead of writing them.
+ * Each file gets a working copy so successive simulated writes build on each other,
+ * and the final diff is reported per file and field against the original values.
+ */
+export class ChangePlan {
+    private originals: Map<string, Record<string, any>> = new Map();
+    private workingCopies: Map<string, Record<string, any>> = new Map();
+    private contributors: Map<string, Map<string, { rules: string[]; sources: string[] }>> = new Map();
+    private processedSources: Map<string, { outgoingLinks: string[]; contentHash: number }> = new Map();
+
+    /**
+     * Current (simulated) frontmatter for a file, seeded from the metadata cache.
+     */
+    getFrontMatter(filePath: string, cachedFrontMatter: Record<string, any> | undefined): Record<string, any> {
+        let working = this.workingCopies.get(filePath);
+        if (!working) {
+            this.originals.set(filePath, this.clone(cachedFrontMatter ?? {}));
+            working = this.clone(cachedFrontMatter ?? {});
+            this.workingCopies.set(filePath, working);
+        }
+        return working;
+    }
+
+    /**
+     * Simulate a processFrontMatter callback, attributing changed fields to a rule and source note.
+     */
+    simulate(
+        filePath: string,
+        ruleName: string,
+        sourcePath: string | undefined,
+        cachedFrontMatter: Record<string, any> | undefined,
+        fn: (frontMatter: any) => void
+    ): void {
+        const working = this.getFrontMatter(filePath, cachedFrontMatter);
+        const before = this.clone(working);
+        fn(working);
+
+        const fields = new Set([...Object.keys(before), ...Object.keys(working)]);
+        for (const field of fields) {
+            if (JSON.stringify(before[field]) === JSON.stringify(working[field])) continue;
+
+            let fileContributors = this.contributors.get(filePath);
+            if (!fileContributors) {
+                fileContributors = new Map();
+                this.contributors.set(filePath, fileContributors);
+            }
+            const contributors = fileContributors.get(field) ?? { rules: [], sources: [] };
+            if (!contributors.rules.includes(ruleName)) {
+                contributors.rules.push(ruleName);
+            }
+            if (sourcePath && !contributors.sources.includes(sourcePath)) {
+                contributors.sources.push(sourcePath);
+            }
+            fileContributors.set(field, contributors);
+        }
+    }
+
+    /**
+     * Keep a processed source's outgoing links and content hash for the backlink index
+     */
+    recordSource(filePath: string, outgoingLinks: string[], contentHash: number): void {
+        this.processedSources.set(filePath, { outgoingLinks, contentHash });
+    }
+
+    /**
+     * Processed sources, flagged by whether any net change came from them
+     */
+    getSources(): PlannedSource[] {
+        const changedSources = new Set(this.getChanges().flatMap(change => change.sources));
+        return Array.from(this.processedSources, ([filePath, { outgoingLinks, contentHash }]) => ({
+            filePath,
+            outgoingLinks,
+            contentHash,
+            changed: changedSources.has(filePath)
+        }));
+    }
+
+    /**
+     * Net changes per file and field (fields that ended up back at their original value are omitted).
+     */
+    getChanges(): PlannedChange[] {
+        const changes: PlannedChange[] = [];
+
+        for (const [filePath, fields] of this.contributors) {
+            const original = this.originals.get(filePath) ?? {};
+            const working = this.workingCopies.get(filePath) ?? {};
+
+            for (const [field, { rules, sources }] of fields) {
+                if (JSON.stringify(original[field]) === JSON.stringify(working[field])) continue;
+                changes.push({
+                    filePath,
+                    field,
+                    before: original[field],
+                    after: working[field],
+                    rules,
+                    sources
+                });
+            }
+        }
+
+        return changes.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.field.localeCompare(b.field));
+    }
+
+    private clone<T>(value: T): T {
+        return value === undefined ? value : JSON.parse(JSON.stringify(value));
+    }
+}
@@ -0,0 +1,101 @@
+import { App, TFile } from 'obsidian';
+
+export type FrontMatterMutation = (frontMatter: any) => void;
+
+// How long a plugin write is remembered for matching its modify event
+const OWN_WRITE_TTL_MS = 60 * 1000;
+
+/**
+ * Serializes frontmatter writes per file so concurrent runs (e.g. two debounced
+ * source edits linking the same target) never race on the same note, and applies
+ * a batch of mutations for one file in a single processFrontMatter call.
+ */
+export class WriteScheduler {
+    private app: App;
+    private queues: Map<string, Promise<void>> = new Map();
+    private ownWrites: Map<string, { mtime: number; time: number }> = new Map();
+    private writing: Set<string> = new Set();
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Run a task once every earlier task for the same path has finished
+     */
+    runExclusive<T>(path: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(path) ?? Promise.resolve();
+        const result = previous.then(task, task);
+        const settled = result.then(() => undefined, () => undefined);
+        this.queues.set(path, settled);
+
+        // Drop the queue entry once it is idle to keep the map small
+        settled.then(() => {
+            if (this.queues.get(path) === settled) {
+                this.queues.delete(path);
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Apply mutations in order within one atomic frontmatter write.
+     * A failing mutation is logged and skipped so the others still apply.
+     */
+    write(file: TFile, mutations: FrontMatterMutation[]): Promise<void> {
+        return this.runWrite(file, () => this.app.fileManager.processFrontMatter(file, (frontMatter: any) => {
+            for (const mutation of mutations) {
+                try {
+                    mutation(frontMatter);
+                } catch (error) {
+                    console.error(`WriteScheduler: Failed to apply update to ${file.path}:`, error);
+                }
+            }
+        }));
+    }
+
+    /**
+     * Run a task that writes a file, serialized with other writes to it and
+     * remembered as the plugin's own write
+     */
+    runWrite<T>(file: TFile, task: () => Promise<T>): Promise<T> {
+        return this.runExclusive(file.path, async () => {
+            // The modify event can fire before the write resolves
+            this.writing.add(file.path);
+            try {
+                const result = await task();
+                this.rememberWrite(file);
+                return result;
+            } finally {
+                this.writing.delete(file.path);
+            }
+        });
+    }
+
+    /**
+     * Whether a file's current state is the plugin's own last write, so the
+     * modify event it fired can be ignored. Each write matches at most once.
+     */
+    isOwnWrite(file: TFile): boolean {
+        if (this.writing.has(file.path)) {
+            return true;
+        }
+        const write = this.ownWrites.get(file.path);
+        if (!write || write.mtime !== file.stat.mtime || Date.now() - write.time > OWN_WRITE_TTL_MS) {
+            return false;
+        }
+        this.ownWrites.delete(file.path);
+        return true;
+    }
+
+    private rememberWrite(file: TFile): void {
+        const now = Date.now();
+        for (const [path, write] of this.ownWrites) {
+            if (now - write.time > OWN_WRITE_TTL_MS) {
+                this.ownWrites.delete(path);
+            }
+        }
+        this.ownWrites.set(file.path, { mtime: file.stat.mtime, time: now });
+    }
+}
@@ -1,19 +1,143 @@
 export interface BacklinkMetadataSettings {
     rules: Rule[];
     options: PluginOptions;
+    bulkCheckpoint?: BulkCheckpoint | null;  // Progress of an interrupted bulk run
 }
 
 export interface Rule {
     id: string;
     name: string;
     sourcePattern: string;
+    sourceExcludePatterns?: string[];  // Globs for source notes to skip
+    targetCriteria?: CriteriaNode;
+    targetExcludePatterns?: string[];  // Globs for target notes to skip
+    linkContext?: LinkContextFilter;   // Restrict which link occurrences count
+    sourceConditions?: PropertyCondition[];  // All must match the source note's frontmatter
+    /** @deprecated Migrated into targetCriteria on load */
     targetTag?: string;
+    /** @deprecated Migrated into targetCriteria on load */
     targetFolder?: string;
     updateField: string;
     valueType: ValueType;
     priority: number;
     enabled: boolean;
     preserveHistory?: boolean;  // Per-rule history tracking
+    valueTemplate?: string;     // Template for the 'custom' value type
+    dateMerge?: DateMergeMode;  // How date values combine with the current one (default 'newest')
+    sourceProperty?: string;    // Source frontmatter key for the 'copy_property' value type
+    copyMerge?: CopyMergeMode;  // How copied values combine with the current one (default 'replace')
+    inlineField?: string;       // Inline field key for the 'inline_field' value type
+    snippetScope?: SnippetScope;  // Text captured around the link (default 'sentence')
+    snippetLength?: number;     // Maximum snippet length in characters (default 200)
+    historySnippet?: boolean;   // Add the snippet around the link to history entries
+}
+
+/**
+ * Which date a 'date' or 'date_and_title' rule keeps: the newest, the oldest,
+ * or whichever was processed last
+ */
+export type DateMergeMode = 'newest' | 'oldest' | 'overwrite';
+
+/**
+ * How a 'copy_property' rule combines the copied value with the current one.
+ * The append modes add list values item by item.
+ */
+export type CopyMergeMode = 'replace' | 'append' | 'append_unique';
+
+/**
+ * How much text around a link a snippet captures: the sentence containing it,
+ * or its whole list item or paragraph
+ */
+export type SnippetScope = 'sentence' | 'block';
+
+/**
+ * Target criteria expression tree. Groups combine children with AND/OR,
+ * NOT negates a single child, and leaves test a tag, folder or property.
+ */
+export type CriteriaNode =
+    | CriteriaGroup
+    | CriteriaNot
+    | TagCriterion
+    | FolderCriterion
+    | PropertyCriterion;
+
+export interface CriteriaGroup {
+    type: 'and' | 'or';
+    children: CriteriaNode[];
+}
+
+export interface CriteriaNot {
+    type: 'not';
+    child: CriteriaNode;
+}
+
+export interface TagCriterion {
+    type: 'tag';
+    tag: string;              // May use * / ** wildcards, e.g. "#media/*"
+    includeNested?: boolean;  // "#media" also matches "#media/movie"
+}
+
+export interface FolderCriterion {
+    type: 'folder';
+    folder: string;
+}
+
+export interface PropertyCriterion {
+    type: 'property';
+    key: string;
+    operator?: ConditionOperator;  // Defaults to equals with a value, exists without
+    value?: string;
+}
+
+/**
+ * A comparison against a single frontmatter property.
+ */
+export interface PropertyCondition {
+    key: string;
+    operator: ConditionOperator;
+    value?: string;
+}
+
+export type ConditionOperator =
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'not_contains'
+    | 'exists'
+    | 'not_exists'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'date_before'
+    | 'date_after'
+    | 'date_on';
+
+export const CONDITION_OPERATORS: Record<ConditionOperator, { label: string; symbol: string; valueKind: 'none' | 'text' | 'number' | 'date' }> = {
+    equals: { label: 'equals', symbol: '=', valueKind: 'text' },
+    not_equals: { label: 'does not equal', symbol: '≠', valueKind: 'text' },
+    contains: { label: 'contains', symbol: 'contains', valueKind: 'text' },
+    not_contains: { label: 'does not contain', symbol: 'does not contain', valueKind: 'text' },
+    exists: { label: 'exists', symbol: 'exists', valueKind: 'none' },
+    not_exists: { label: 'does not exist', symbol: 'does not exist', valueKind: 'none' },
+    gt: { label: '>', symbol: '>', valueKind: 'number' },
+    gte: { label: '>=', symbol: '>=', valueKind: 'number' },
+    lt: { label: '<', symbol: '<', valueKind: 'number' },
+    lte: { label: '<=', symbol: '<=', valueKind: 'number' },
+    date_before: { label: 'date before', symbol: 'before', valueKind: 'date' },
+    date_after: { label: 'date after', symbol: 'after', valueKind: 'date' },
+    date_on: { label: 'date on', symbol: 'on', valueKind: 'date' }
+};
+
+/**
+ * Restricts which occurrences of a link in the source note count for a rule.
+ * All specified conditions must hold for at least one occurrence.
+ */
+export interface LinkContextFilter {
+    headings?: string[];                          // Link must be under one of these headings
+    taskStatus?: 'any' | 'checked' | 'unchecked'; // Link must be in a task item
+    keywords?: string[];                          // Link's line must contain one of these
+    linkKind?: 'links' | 'embeds' | 'both';       // Defaults to plain links
 }
 
 export type ValueType = 
@@ -22,7 +146,33 @@ export type ValueType =
     | 'append_link' 
     | 'append_unique_link'
     | 'replace_link'
-    | 'custom';
+    | 'custom'
+    | 'copy_property'   // A frontmatter value copied from the source, type preserved
+    | 'inline_field'    // A `key:: value` field on the line or list item of the link
+    | 'context_snippet' // The sentence or block around the link, markdown stripped
+    | 'count'           // Distinct matching sources linking to the target
+    | 'mention_count'   // Total links from matching sources, repeats included
+    | 'first_date'      // Earliest source date
+    | 'frequency';      // Mentions per month between the first and latest source date
+
+/**
+ * Value types computed from all of a target's current backlinks rather than merged per source
+ */
+export const AGGREGATE_VALUE_TYPES: ValueType[] = ['count', 'mention_count', 'first_date', 'frequency'];
+
+/**
+ * Value types that depend only on the link existing, so a link that was already processed
+ * needs no re-apply when its source is edited
+ */
+export const LINK_VALUE_TYPES: ValueType[] = ['append_link', 'append_unique_link', 'replace_link'];
+
+/**
+ * How a source note is processed
+ */
+export interface ProcessFileOptions {
+    incremental?: boolean;   // Re-apply link-only value types only to links added since the last run
+    partialRules?: boolean;  // Only some rules run, so removed links aren't retracted or forgotten
+}
 
 export interface PluginOptions {
     preserveHistory: boolean;
@@ -30,6 +180,12 @@ export interface PluginOptions {
     dateFormat: string;
     debounceMs: number;
     enableLogging: boolean;
+    optOutProperty: string;  // Frontmatter key; notes with "<key>: ignore" are skipped
+    reconcileIntervalMinutes: number;  // 0 disables scheduled reconcile
+    maxCascadeUpdates: number;         // Cascaded updates allowed per run before it is stopped
+    previewBulkOperations: boolean;    // Dry-run bulk commands and confirm changes first
+    auditLogEnabled: boolean;
+    auditLogNotePath: string;          // Vault note for the audit log; empty = plugin folder
 }
 
 export interface ProcessingContext {
@@ -37,9 +193,27 @@ export interface ProcessingContext {
     targetFile: string;
     extractedDate?: string;
     extractedTitle?: string;
+    inlineFieldValue?: any;     // Parsed inline field, for the 'inline_field' value type
+    snippet?: string;           // Text around the link, for 'context_snippet' and history snippets
     rule: Rule;
 }
 
+export interface TemplateNoteContext {
+    path: string;
+    basename: string;
+    name: string;
+    link: string;
+    frontmatter: Record<string, any>;
+}
+
+export interface TemplateContext {
+    date?: string;
+    title?: string;
+    now: string;
+    source: TemplateNoteContext;
+    target: TemplateNoteContext;
+}
+
 export interface MetadataUpdate {
     field: string;
     value: any;
@@ -47,18 +221,98 @@ export interface MetadataUpdate {
     sourceContext?: string;
 }
 
+export interface PlannedChange {
+    filePath: string;
+    field: string;
+    before: any;     // undefined when the field doesn't exist yet
+    after: any;      // undefined when the field would be removed
+    rules: string[]; // Names of the rules that contributed
+    sources: string[]; // Paths of the source notes whose processing contributed
+}
+
+/**
+ * A source note processed by a dry run, recorded in the backlink index once the plan is applied
+ */
+export interface PlannedSource {
+    filePath: string;
+    outgoingLinks: string[];
+    contentHash: number;
+    changed: boolean; // Whether any planned change came from this source
+}
+
+export type OperationTrigger = 'modify' | 'rename' | 'delete' | 'bulk' | 'manual';
+
+export interface JournalEntry {
+    filePath: string;
+    field: string;
+    before: any;  // undefined when the field didn't exist
+    after: any;   // undefined when the field was removed
+}
+
+export interface JournalOperation {
+    id: string;
+    label: string;
+    trigger: OperationTrigger;
+    timestamp: string;
+    entries: JournalEntry[];
+}
+
+export interface AuditEntry {
+    timestamp: string;
+    trigger: OperationTrigger;
+    ruleId?: string;
+    ruleName?: string;
+    source?: string;
+    target: string;
+    field: string;
+    oldValue: any;
+    newValue: any;
+}
+
+export type BulkRunKind = 'process-all' | 'bulk-update';
+
+/**
+ * Limits a bulk run. Every set field must match; unset fields don't restrict.
+ */
+export interface BulkScope {
+    ruleIds?: string[];   // Only apply these rules
+    folder?: string;      // Only sources in this folder (recursive)
+    dateFrom?: string;    // Only sources whose extracted date is on or after (YYYY-MM-DD)
+    dateTo?: string;      // ...and on or before (YYYY-MM-DD)
+    paths?: string[];     // Only these files (e.g. a file explorer selection)
+}
+
+/**
+ * Progress of a writing bulk run, saved so an interrupted run can resume.
+ * Files are processed in path order, so everything up to lastPath is done.
+ */
+export interface BulkCheckpoint {
+    kind: BulkRunKind;
+    label: string;
+    scope?: BulkScope;
+    lastPath: string;
+    processed: number;
+    total: number;
+    updatedAt: string;
+}
+
 export interface ValidationResult {
     isValid: boolean;
     errors: string[];
     warnings: string[];
 }
 
+export interface BacklinkCacheEntry {
+    outgoingLinks: string[];
+    incomingLinks: string[];
+    /** When the note was last processed as a source (ms since epoch, 0 if never) */
+    lastUpdated: number;
+    /** Content hash at last processing, so edits that change nothing can be skipped */
+    contentHash?: number;
+}
+
 export interface BacklinkCache {
-    [filePath: string]: {
-        outgoingLinks: string[];
-        incomingLinks: string[];
-        lastUpdated: number;
-    };
+    [filePath: string]: BacklinkCacheEntry;
 }
 
 export const DEFAULT_SETTINGS: BacklinkMetadataSettings = {
@@ -67,7 +321,7 @@ export const DEFAULT_SETTINGS: BacklinkMetadataSettings = {
             id: 'daily-to-movies',
             name: 'Daily Notes → Movies',
             sourcePattern: '! Daily Log/*/*',
-            targetTag: '#movie',
+            targetCriteria: { type: 'and', children: [{ type: 'tag', tag: '#movie' }] },
             updateField: 'lastWatched',
             valueType: 'date',
             priority: 1,
@@ -77,7 +331,7 @@ export const DEFAULT_SETTINGS: BacklinkMetadataSettings = {
             id: 'daily-to-books',
             name: 'Daily Notes → Books',
             sourcePattern: '! Daily Log/*/*',
-            targetTag: '#book',
+            targetCriteria: { type: 'and', children: [{ type: 'tag', tag: '#book' }] },
             updateField: 'lastRead',
             valueType: 'date',
             priority: 1,
@@ -89,6 +343,12 @@ export const DEFAULT_SETTINGS: BacklinkMetadataSettings = {
         updateOnDelete: false,
         dateFormat: 'YYYY-MM-DD',
         debounceMs: 1000,
-        enableLogging: false
+        enableLogging: false,
+        optOutProperty: 'backlink-metadata',
+        reconcileIntervalMinutes: 0,
+        maxCascadeUpdates: 10,
+        previewBulkOperations: true,
+        auditLogEnabled: false,
+        auditLogNotePath: ''
     }
 };
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { App, Modal, Setting, moment } from 'obsidian';
+import { AuditEntry } from '../types';
+
+const MAX_DISPLAYED_ENTRIES = 500;
+
+/**
+ * Browses the audit log, newest first, filtered by note path and rule.
+ */
+export class AuditLogModal extends Modal {
+    private entries: AuditEntry[];
+    private noteFilter = '';
+    private ruleFilter = '';
+    private listEl: HTMLElement;
+    private countEl: HTMLElement;
+
+    constructor(app: App, entries: AuditEntry[], initialNoteFilter = '') {
+        super(app);
+        this.titleEl.setText('Backlink metadata audit log');
+        this.entries = [...entries].reverse();
+        this.noteFilter = initialNoteFilter;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('audit-log-modal');
+
+        if (this.entries.length === 0) {
+            contentEl.createEl('p', { text: 'The audit log is empty. Enable it in the plugin settings to record updates.' });
+            return;
+        }
+
+        new Setting(contentEl)
+            .setName('Note')
+            .setDesc('Matches source or target path')
+            .addText(text => {
+                text.setPlaceholder('Filter by note path')
+                    .setValue(this.noteFilter)
+                    .onChange((value) => {
+                        this.noteFilter = value;
+                        this.renderEntries();
+                    });
+                text.inputEl.setAttribute('aria-label', 'Filter by note path');
+            });
+
+        const rules = new Map<string, string>();
+        for (const entry of this.entries) {
+            const key = entry.ruleId ?? entry.ruleName;
+            if (key && !rules.has(key)) {
+                rules.set(key, entry.ruleName ?? key);
+            }
+        }
+
+        new Setting(contentEl)
+            .setName('Rule')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'All rules');
+                for (const [key, name] of rules) {
+                    dropdown.addOption(key, name);
+                }
+                dropdown.setValue(this.ruleFilter)
+                    .onChange((value) => {
+                        this.ruleFilter = value;
+                        this.renderEntries();
+                    });
+                dropdown.selectEl.setAttribute('aria-label', 'Filter by rule');
+            });
+
+        this.countEl = contentEl.createDiv('audit-log-count');
+        this.countEl.setAttribute('aria-live', 'polite');
+        this.listEl = contentEl.createDiv('audit-log-list');
+        this.listEl.setAttribute('role', 'list');
+        this.renderEntries();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private renderEntries() {
+        this.listEl.empty();
+
+        const note = this.noteFilter.trim().toLowerCase();
+        const matches = this.entries.filter(entry => {
+            if (this.ruleFilter && (entry.ruleId ?? entry.ruleName) !== this.ruleFilter) {
+                return false;
+            }
+            if (note && !entry.target.toLowerCase().includes(note) && !(entry.source ?? '').toLowerCase().includes(note)) {
+                return false;
+            }
+            return true;
+        });
+
+        const shown = matches.slice(0, MAX_DISPLAYED_ENTRIES);
+        this.countEl.setText(matches.length > shown.length
+            ? `Showing ${shown.length} of ${matches.length} entries`
+            : `${matches.length} entries`);
+
+        for (const entry of shown) {
+            const rowEl = this.listEl.createDiv('audit-log-entry');
+            rowEl.setAttribute('role', 'listitem');
+
+            rowEl.createDiv({
+                text: `${moment(entry.timestamp).format('YYYY-MM-DD HH:mm:ss')} · ${entry.trigger} · ${entry.ruleName ?? entry.ruleId ?? 'unknown rule'}`,
+                cls: 'audit-log-meta'
+            });
+            rowEl.createDiv({
+                text: `${entry.source ? `${entry.source} → ` : ''}${entry.target} · ${entry.field}`,
+                cls: 'audit-log-path'
+            });
+            rowEl.createEl('pre', {
+                text: `- ${this.formatValue(entry.oldValue)}\n+ ${this.formatValue(entry.newValue)}`,
+                cls: 'audit-log-values'
+            });
+        }
+    }
+
+    private formatValue(value: any): string {
+        if (value === undefined) return '(none)';
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+}
@@ -0,0 +1,82 @@
+import { App, Modal } from 'obsidian';
+import { BulkRunControl } from '../processor/bulk-run';
+
+/**
+ * Shows bulk run progress with pause/resume and cancel.
+ * Closing the modal leaves the run going; it can be reopened while the run lasts.
+ */
+export class BulkProgressModal extends Modal {
+    private control: BulkRunControl;
+    private current = 0;
+    private total = 0;
+    private currentPath = '';
+    private progressEl: HTMLProgressElement | null = null;
+    private statusEl: HTMLElement | null = null;
+    private pathEl: HTMLElement | null = null;
+    private pauseBtn: HTMLButtonElement | null = null;
+
+    constructor(app: App, title: string, control: BulkRunControl) {
+        super(app);
+        this.titleEl.setText(title);
+        this.control = control;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('bulk-progress-modal');
+
+        this.progressEl = contentEl.createEl('progress', { cls: 'bulk-progress-bar' });
+        this.statusEl = contentEl.createDiv('bulk-progress-status');
+        this.statusEl.setAttribute('aria-live', 'polite');
+        this.pathEl = contentEl.createDiv('bulk-progress-path');
+
+        const buttonContainer = contentEl.createDiv('bulk-progress-actions');
+
+        this.pauseBtn = buttonContainer.createEl('button');
+        this.pauseBtn.onclick = () => {
+            if (this.control.isPaused()) {
+                this.control.resume();
+            } else {
+                this.control.pause();
+            }
+            this.render();
+        };
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel', cls: 'mod-warning' });
+        cancelBtn.onclick = () => {
+            this.control.cancel();
+            this.close();
+        };
+
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.progressEl = null;
+        this.statusEl = null;
+        this.pathEl = null;
+        this.pauseBtn = null;
+    }
+
+    setProgress(current: number, total: number, currentPath: string) {
+        this.current = current;
+        this.total = total;
+        this.currentPath = currentPath;
+        this.render();
+    }
+
+    private render() {
+        if (!this.progressEl || !this.statusEl || !this.pathEl || !this.pauseBtn) {
+            return;
+        }
+
+        this.progressEl.max = Math.max(this.total, 1);
+        this.progressEl.value = this.current;
+
+        const state = this.control.isPaused() ? 'Paused' : 'Processing';
+        this.statusEl.setText(`${state}: ${this.current}/${this.total} files`);
+        this.pathEl.setText(this.currentPath);
+        this.pauseBtn.setText(this.control.isPaused() ? 'Resume' : 'Pause');
+    }
+}
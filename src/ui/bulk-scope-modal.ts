@@ -0,0 +1,136 @@
+import { App, Modal, Setting, moment } from 'obsidian';
+import { BulkScope, Rule } from '../types';
+
+/**
+ * Picks which rules, folder and source date range a bulk run covers.
+ */
+export class BulkScopeModal extends Modal {
+    private rules: Rule[];
+    private selectedRuleIds: Set<string>;
+    private folder = '';
+    private dateFrom = '';
+    private dateTo = '';
+    private onSubmit: (scope: BulkScope) => void;
+    private errorEl: HTMLElement;
+
+    constructor(app: App, rules: Rule[], onSubmit: (scope: BulkScope) => void) {
+        super(app);
+        this.titleEl.setText('Bulk update scope');
+        this.rules = rules.filter(rule => rule.enabled);
+        this.selectedRuleIds = new Set(this.rules.map(rule => rule.id));
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('bulk-scope-modal');
+
+        if (this.rules.length === 0) {
+            contentEl.createEl('p', { text: 'There are no enabled rules to run.' });
+            return;
+        }
+
+        contentEl.createEl('h4', { text: 'Rules' });
+        for (const rule of this.rules) {
+            new Setting(contentEl)
+                .setName(rule.name)
+                .setDesc(`${rule.sourcePattern} → ${rule.updateField}`)
+                .addToggle(toggle => toggle
+                    .setValue(this.selectedRuleIds.has(rule.id))
+                    .onChange((value) => {
+                        if (value) {
+                            this.selectedRuleIds.add(rule.id);
+                        } else {
+                            this.selectedRuleIds.delete(rule.id);
+                        }
+                    })
+                );
+        }
+
+        contentEl.createEl('h4', { text: 'Sources' });
+
+        new Setting(contentEl)
+            .setName('Folder')
+            .setDesc('Only process sources in this folder (leave empty for all)')
+            .addText(text => {
+                text.setPlaceholder('Daily Notes')
+                    .onChange((value) => {
+                        this.folder = value.trim();
+                    });
+                text.inputEl.setAttribute('aria-label', 'Folder');
+            });
+
+        new Setting(contentEl)
+            .setName('Date from')
+            .setDesc('Only sources dated on or after (YYYY-MM-DD)')
+            .addText(text => {
+                text.setPlaceholder('2024-03-01')
+                    .onChange((value) => {
+                        this.dateFrom = value.trim();
+                    });
+                text.inputEl.setAttribute('aria-label', 'Date from');
+            });
+
+        new Setting(contentEl)
+            .setName('Date to')
+            .setDesc('Only sources dated on or before (YYYY-MM-DD)')
+            .addText(text => {
+                text.setPlaceholder('2024-03-31')
+                    .onChange((value) => {
+                        this.dateTo = value.trim();
+                    });
+                text.inputEl.setAttribute('aria-label', 'Date to');
+            });
+
+        this.errorEl = contentEl.createDiv('bulk-scope-error');
+        this.errorEl.setAttribute('role', 'alert');
+
+        const buttonContainer = contentEl.createDiv('bulk-progress-actions');
+
+        const runBtn = buttonContainer.createEl('button', { text: 'Run', cls: 'mod-cta' });
+        runBtn.onclick = () => {
+            const error = this.validate();
+            if (error) {
+                this.errorEl.setText(error);
+                return;
+            }
+            this.close();
+            this.onSubmit(this.buildScope());
+        };
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.onclick = () => {
+            this.close();
+        };
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private validate(): string | null {
+        if (this.selectedRuleIds.size === 0) {
+            return 'Select at least one rule.';
+        }
+        for (const [label, value] of [['Date from', this.dateFrom], ['Date to', this.dateTo]]) {
+            if (value && !moment(value, 'YYYY-MM-DD', true).isValid()) {
+                return `${label} must be a date in YYYY-MM-DD format.`;
+            }
+        }
+        if (this.dateFrom && this.dateTo && this.dateFrom > this.dateTo) {
+            return 'Date from must not be after date to.';
+        }
+        return null;
+    }
+
+    private buildScope(): BulkScope {
+        const scope: BulkScope = {};
+        if (this.selectedRuleIds.size < this.rules.length) {
+            scope.ruleIds = Array.from(this.selectedRuleIds);
+        }
+        if (this.folder) scope.folder = this.folder.replace(/^\/+|\/+$/g, '');
+        if (this.dateFrom) scope.dateFrom = this.dateFrom;
+        if (this.dateTo) scope.dateTo = this.dateTo;
+        return scope;
+    }
+}
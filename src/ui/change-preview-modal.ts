@@ -0,0 +1,187 @@
+import { App, Modal, Setting } from 'obsidian';
+import { PlannedChange } from '../types';
+
+type GroupBy = 'target' | 'rule';
+
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Shows planned frontmatter changes from a dry run as before/after diffs,
+ * grouped by target note or by rule, and applies only the selected ones.
+ */
+export class ChangePreviewModal extends Modal {
+    private changes: PlannedChange[];
+    private selected: Set<PlannedChange>;
+    private groupBy: GroupBy = 'target';
+    private expanded: Set<string> | null = null;
+    private onApply: (changes: PlannedChange[]) => void;
+    private listEl: HTMLElement;
+    private summaryEl: HTMLElement;
+
+    constructor(app: App, title: string, changes: PlannedChange[], onApply: (changes: PlannedChange[]) => void) {
+        super(app);
+        this.titleEl.setText(title);
+        this.changes = changes;
+        this.selected = new Set(changes);
+        this.onApply = onApply;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('change-preview-modal');
+
+        if (this.changes.length === 0) {
+            contentEl.createEl('p', { text: 'No metadata would change.' });
+            const buttonContainer = contentEl.createDiv('change-preview-actions');
+            const closeBtn = buttonContainer.createEl('button', { text: 'Close' });
+            closeBtn.onclick = () => this.close();
+            return;
+        }
+
+        this.summaryEl = contentEl.createDiv('change-preview-summary');
+        this.summaryEl.setAttribute('aria-live', 'polite');
+
+        new Setting(contentEl)
+            .setName('Group by')
+            .addDropdown(dropdown => dropdown
+                .addOption('target', 'Target note')
+                .addOption('rule', 'Rule')
+                .setValue(this.groupBy)
+                .onChange((value) => {
+                    this.groupBy = value as GroupBy;
+                    this.expanded = null;
+                    this.renderGroups();
+                })
+            )
+            .addButton(button => button
+                .setButtonText('Select all')
+                .onClick(() => {
+                    this.changes.forEach(change => this.selected.add(change));
+                    this.renderGroups();
+                })
+            )
+            .addButton(button => button
+                .setButtonText('Select none')
+                .onClick(() => {
+                    this.selected.clear();
+                    this.renderGroups();
+                })
+            );
+
+        this.listEl = contentEl.createDiv('change-preview-list');
+        this.listEl.setAttribute('role', 'list');
+        this.renderGroups();
+
+        const buttonContainer = contentEl.createDiv('change-preview-actions');
+
+        const applyBtn = buttonContainer.createEl('button', { text: 'Apply selected', cls: 'mod-cta' });
+        applyBtn.onclick = () => {
+            const toApply = this.changes.filter(change => this.selected.has(change));
+            this.close();
+            this.onApply(toApply);
+        };
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.onclick = () => {
+            this.close();
+        };
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private renderGroups() {
+        this.listEl.empty();
+
+        const groups = new Map<string, PlannedChange[]>();
+        for (const change of this.changes) {
+            const keys = this.groupBy === 'target' ? [change.filePath] : change.rules;
+            for (const key of keys) {
+                groups.set(key, [...(groups.get(key) ?? []), change]);
+            }
+        }
+
+        // Expand small previews by default; afterwards remember what the user opened
+        if (!this.expanded) {
+            this.expanded = new Set(groups.size <= 10 ? groups.keys() : []);
+        }
+        const expanded = this.expanded;
+
+        for (const [key, groupChanges] of groups) {
+            const groupEl = this.listEl.createEl('details', { cls: 'change-preview-group' });
+            groupEl.setAttribute('role', 'listitem');
+            groupEl.open = expanded.has(key);
+            groupEl.addEventListener('toggle', () => {
+                if (groupEl.open) {
+                    expanded.add(key);
+                } else {
+                    expanded.delete(key);
+                }
+            });
+
+            const summary = groupEl.createEl('summary');
+            const groupCheckbox = summary.createEl('input', { type: 'checkbox' });
+            groupCheckbox.setAttribute('aria-label', `Select all changes for ${key}`);
+            const selectedCount = groupChanges.filter(change => this.selected.has(change)).length;
+            groupCheckbox.checked = selectedCount === groupChanges.length;
+            groupCheckbox.indeterminate = selectedCount > 0 && selectedCount < groupChanges.length;
+            groupCheckbox.onclick = (event) => {
+                event.stopPropagation();
+                groupChanges.forEach(change => groupCheckbox.checked ? this.selected.add(change) : this.selected.delete(change));
+                this.renderGroups();
+            };
+            summary.createSpan({ text: ` ${key} (${groupChanges.length})`, cls: 'change-preview-group-name' });
+
+            for (const change of groupChanges) {
+                this.renderChange(groupEl, change);
+            }
+        }
+
+        this.updateSummary();
+    }
+
+    private renderChange(containerEl: HTMLElement, change: PlannedChange) {
+        const rowEl = containerEl.createDiv('change-preview-row');
+
+        const label = rowEl.createEl('label');
+        const checkbox = label.createEl('input', { type: 'checkbox' });
+        checkbox.checked = this.selected.has(change);
+        checkbox.onchange = () => {
+            if (checkbox.checked) {
+                this.selected.add(change);
+            } else {
+                this.selected.delete(change);
+            }
+            this.renderGroups();
+        };
+
+        const heading = this.groupBy === 'target'
+            ? `${change.field} (${change.rules.join(', ')})`
+            : `${change.filePath} → ${change.field}`;
+        label.createSpan({ text: ` ${heading}`, cls: 'change-preview-field' });
+
+        const diffEl = rowEl.createDiv('change-preview-diff');
+        diffEl.createEl('pre', {
+            text: `- ${this.formatValue(change.before)}`,
+            cls: 'change-preview-before'
+        });
+        diffEl.createEl('pre', {
+            text: `+ ${this.formatValue(change.after)}`,
+            cls: 'change-preview-after'
+        });
+    }
+
+    private updateSummary() {
+        const files = new Set(this.changes.map(change => change.filePath));
+        this.summaryEl.setText(
+            `${this.selected.size} of ${this.changes.length} changes selected across ${files.size} notes`
+        );
+    }
+
+    private formatValue(value: any): string {
+        if (value === undefined) return '(none)';
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return text.length > MAX_VALUE_LENGTH ? text.slice(0, MAX_VALUE_LENGTH) + '…' : text;
+    }
+}
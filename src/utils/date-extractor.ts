@@ -23,10 +23,11 @@ export class DateExtractor {
      * 2. Filename patterns (YYYY-MM-DD, DD-MM-YYYY, etc.)
      * 3. Daily note patterns
      * 4. Creation date as fallback
+     * A deleted file's last metadata can be passed in, since the cache no longer has it.
      */
-    extractDate(file: TFile): string | null {
+    extractDate(file: TFile, cache?: CachedMetadata | null): string | null {
         // Try frontmatter first
-        const frontmatterDate = this.extractFromFrontmatter(file);
+        const frontmatterDate = this.extractFromFrontmatter(file, cache);
         if (frontmatterDate) return frontmatterDate;
 
         // Try filename patterns
@@ -41,8 +42,8 @@ export class DateExtractor {
         return this.formatDate(moment(file.stat.ctime));
     }
 
-    private extractFromFrontmatter(file: TFile): string | null {
-        const cache = this.app.metadataCache.getFileCache(file);
+    private extractFromFrontmatter(file: TFile, fileCache?: CachedMetadata | null): string | null {
+        const cache = fileCache ?? this.app.metadataCache.getFileCache(file);
         if (!cache?.frontmatter) return null;
 
         const frontmatter = cache.frontmatter;
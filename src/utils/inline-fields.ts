@@ -0,0 +1,105 @@
+const KEY_PATTERN = /^\s*(\w[\w -]*?)\s*::/;
+const BARE_FIELD_PATTERN = /(^|\s)(\w[\w-]*)::/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export class InlineFieldParser {
+    /**
+     * Parse Dataview-style inline fields from text, keyed by lowercased key.
+     * Handles `[key:: value]` and `(key:: value)` anywhere in a line, and bare `key:: value`
+     * which runs until the next bare field or the end of the line
+     * (so `rating:: 4 with:: [[Alice]]` gives two fields). A key repeated on a later line keeps the later value.
+     */
+    parse(text: string): Map<string, any> {
+        const fields = new Map<string, any>();
+        for (const line of text.split('\n')) {
+            this.parseLine(line, fields);
+        }
+        return fields;
+    }
+
+    private parseLine(line: string, fields: Map<string, any>): void {
+        const { bracketed, rest } = this.extractBracketed(line);
+
+        const matches: RegExpExecArray[] = [];
+        const pattern = new RegExp(BARE_FIELD_PATTERN.source, 'g');
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(rest)) !== null) {
+            matches.push(match);
+        }
+        matches.forEach((current, i) => {
+            const start = current.index + current[0].length;
+            const end = i + 1 < matches.length ? matches[i + 1].index : rest.length;
+            this.setField(fields, current[2], rest.substring(start, end));
+        });
+
+        for (const [key, value] of bracketed) {
+            this.setField(fields, key, value);
+        }
+    }
+
+    /**
+     * Pull out bracketed fields, returning the text with them blanked out.
+     * Brackets are matched by depth so values may contain links like `[[Alice]]`.
+     */
+    private extractBracketed(text: string): { bracketed: [string, string][]; rest: string } {
+        const bracketed: [string, string][] = [];
+        let rest = '';
+        let i = 0;
+
+        while (i < text.length) {
+            const char = text[i];
+            const opensField = (char === '[' || char === '(') && text[i + 1] !== '[';
+            const keyMatch = opensField ? text.substring(i + 1).match(KEY_PATTERN) : null;
+            if (!keyMatch) {
+                rest += char;
+                i++;
+                continue;
+            }
+
+            const close = char === '[' ? ']' : ')';
+            const valueStart = i + 1 + keyMatch[0].length;
+            let depth = 1;
+            let j = valueStart;
+            for (; j < text.length; j++) {
+                if (text[j] === char) depth++;
+                if (text[j] === close && --depth === 0) break;
+            }
+            if (depth !== 0) {
+                // Unclosed bracket: treat as plain text
+                rest += char;
+                i++;
+                continue;
+            }
+
+            bracketed.push([keyMatch[1], text.substring(valueStart, j)]);
+            rest += ' ';
+            i = j + 1;
+        }
+
+        return { bracketed, rest };
+    }
+
+    private setField(fields: Map<string, any>, key: string, raw: string): void {
+        const value = this.convertValue(raw);
+        if (value !== null) {
+            fields.set(key.trim().toLowerCase(), value);
+        }
+    }
+
+    /**
+     * Numbers and booleans keep their type; anything else (including links) stays a string
+     */
+    private convertValue(raw: string): any {
+        const value = raw.trim();
+        if (value === '') {
+            return null;
+        }
+        if (NUMBER_PATTERN.test(value)) {
+            return Number(value);
+        }
+        if (value === 'true' || value === 'false') {
+            return value === 'true';
+        }
+        return value;
+    }
+}
@@ -0,0 +1,112 @@
+import { CachedMetadata, ListItemCache, ReferenceCache } from 'obsidian';
+import { LinkContextFilter } from '../types';
+
+export class LinkContextMatcher {
+    /**
+     * Check whether a link occurrence satisfies a rule's link context filter.
+     * Keyword filters need the file's lines; without them keyword filters never match.
+     */
+    matches(link: ReferenceCache, cache: CachedMetadata, filter: LinkContextFilter, lines: string[] | null): boolean {
+        const line = link.position.start.line;
+
+        if (filter.headings && filter.headings.length > 0) {
+            const headingPath = this.getHeadingPath(cache, line);
+            const wanted = filter.headings.map(heading => this.normalizeHeading(heading));
+            if (!wanted.some(heading => headingPath.includes(heading))) {
+                return false;
+            }
+        }
+
+        if (filter.taskStatus) {
+            const item = this.findListItem(cache, line);
+            if (!item || item.task === undefined) {
+                return false;
+            }
+            if (filter.taskStatus === 'checked' && item.task === ' ') {
+                return false;
+            }
+            if (filter.taskStatus === 'unchecked' && item.task !== ' ') {
+                return false;
+            }
+        }
+
+        if (filter.keywords && filter.keywords.length > 0) {
+            if (!lines) {
+                return false;
+            }
+            const text = (lines[line] ?? '').toLowerCase();
+            if (!filter.keywords.some(keyword => text.includes(keyword.toLowerCase()))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Whether a filter can only be satisfied by links in the note body
+     * (frontmatter links have no heading, list item or line).
+     */
+    requiresBodyContext(filter: LinkContextFilter | undefined): boolean {
+        if (!filter) {
+            return false;
+        }
+        return (filter.headings?.length ?? 0) > 0
+            || !!filter.taskStatus
+            || (filter.keywords?.length ?? 0) > 0
+            || filter.linkKind === 'embeds';
+    }
+
+    /**
+     * Normalized texts of the headings enclosing a line, outermost first.
+     * A link under "### Evening" inside "## Watched" is under both.
+     */
+    getHeadingPath(cache: CachedMetadata, line: number): string[] {
+        const stack: { level: number; text: string }[] = [];
+
+        for (const heading of cache.headings ?? []) {
+            if (heading.position.start.line > line) {
+                break;
+            }
+            while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+                stack.pop();
+            }
+            stack.push({ level: heading.level, text: this.normalizeHeading(heading.heading) });
+        }
+
+        return stack.map(entry => entry.text);
+    }
+
+    /**
+     * Innermost list item that contains a line, if any.
+     */
+    findListItem(cache: CachedMetadata, line: number): ListItemCache | null {
+        let match: ListItemCache | null = null;
+
+        for (const item of cache.listItems ?? []) {
+            if (item.position.start.line <= line && item.position.end.line >= line) {
+                if (!match || item.position.start.line >= match.position.start.line) {
+                    match = item;
+                }
+            }
+        }
+
+        return match;
+    }
+
+    /**
+     * Text of the list item containing a line (all of its lines), or just the line
+     * when it isn't in a list
+     */
+    getItemText(cache: CachedMetadata, line: number, lines: string[]): string {
+        const item = this.findListItem(cache, line);
+        if (!item) {
+            return lines[line] ?? '';
+        }
+        return lines.slice(item.position.start.line, item.position.end.line + 1).join('\n');
+    }
+
+    private normalizeHeading(heading: string): string {
+        return heading.replace(/^#+\s*/, '').trim().toLowerCase();
+    }
+}
@@ -0,0 +1,124 @@
+import { CachedMetadata, ReferenceCache } from 'obsidian';
+import { SnippetScope } from '../types';
+import { LinkContextMatcher } from './link-context';
+
+export const DEFAULT_SNIPPET_LENGTH = 200;
+
+// Marks the link's position while the markdown is stripped
+const LINK_MARKER = '\u0000';
+const ELLIPSIS = '…';
+
+export class SnippetExtractor {
+    private linkContextMatcher = new LinkContextMatcher();
+
+    /**
+     * Plain text around a link: the sentence containing it, or its list item or paragraph.
+     * Block boundaries come from the cache's list items and sections; snippets longer than
+     * maxLength are cut to a window around the link.
+     */
+    extract(content: string, cache: CachedMetadata, link: ReferenceCache, scope: SnippetScope, maxLength = DEFAULT_SNIPPET_LENGTH): string {
+        const linkStart = link.position.start.offset;
+        const linkEnd = link.position.end.offset;
+        const [blockStart, blockEnd] = this.findBlock(content, cache, link);
+
+        let start = blockStart;
+        let end = blockEnd;
+        if (scope === 'sentence') {
+            start = this.findSentenceStart(content, blockStart, linkStart);
+            end = this.findSentenceEnd(content, linkEnd, blockEnd);
+        }
+
+        const marked = content.substring(start, linkStart) + LINK_MARKER + content.substring(linkStart, end);
+        const text = this.stripMarkdown(marked);
+        const linkIndex = Math.max(0, text.indexOf(LINK_MARKER));
+
+        return this.truncate(text.replace(LINK_MARKER, ''), linkIndex, maxLength);
+    }
+
+    /**
+     * Offsets of the list item or section containing the link (the line as a fallback)
+     */
+    private findBlock(content: string, cache: CachedMetadata, link: ReferenceCache): [number, number] {
+        const line = link.position.start.line;
+
+        const item = this.linkContextMatcher.findListItem(cache, line);
+        if (item) {
+            return [item.position.start.offset, item.position.end.offset];
+        }
+
+        const section = (cache.sections ?? []).find(candidate =>
+            candidate.position.start.line <= line && candidate.position.end.line >= line);
+        if (section) {
+            return [section.position.start.offset, section.position.end.offset];
+        }
+
+        const lineStart = content.lastIndexOf('\n', link.position.start.offset - 1) + 1;
+        const lineEnd = content.indexOf('\n', link.position.end.offset);
+        return [lineStart, lineEnd === -1 ? content.length : lineEnd];
+    }
+
+    private findSentenceStart(content: string, blockStart: number, linkStart: number): number {
+        for (let i = linkStart - 1; i > blockStart; i--) {
+            if (/\s/.test(content[i]) && /[.!?]/.test(content[i - 1])) {
+                return i + 1;
+            }
+        }
+        return blockStart;
+    }
+
+    private findSentenceEnd(content: string, linkEnd: number, blockEnd: number): number {
+        for (let i = linkEnd; i < blockEnd; i++) {
+            if (/[.!?]/.test(content[i]) && (i + 1 >= blockEnd || /\s/.test(content[i + 1]))) {
+                return i + 1;
+            }
+        }
+        return blockEnd;
+    }
+
+    /**
+     * Reduce markdown to its plain text: links become their display text, and list markers,
+     * headings, quotes, emphasis, code ticks, comments, HTML tags and block ids are dropped
+     */
+    private stripMarkdown(text: string): string {
+        return text
+            .replace(/%%[\s\S]*?%%/g, '')
+            .replace(/<[^>]+>/g, '')
+            .replace(/!?\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2')
+            .replace(/!?\[\[([^\]]*)\]\]/g, (_match, target: string) => target.replace(/^.*\//, '').replace(/#\^?/g, ' > ').trim())
+            .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+            .replace(/^[ \t]*>[ \t]?(\[![^\]]*\][+-]?[ \t]*)?/gm, '')
+            .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+            .replace(/^[ \t]*([-*+]|\d+[.)])[ \t]+(\[.\][ \t]+)?/gm, '')
+            .replace(/[ \t]\^[\w-]+$/gm, '')
+            .replace(/(\*\*|__|~~|==)(.+?)\1/g, '$2')
+            .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+            .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, '$1$2')
+            .replace(/`([^`]*)`/g, '$1')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Cut text to maxLength around a position, at word boundaries, marking cuts with an ellipsis
+     */
+    private truncate(text: string, focus: number, maxLength: number): string {
+        if (text.length <= maxLength) {
+            return text;
+        }
+
+        // Keep some lead-in before the link, but fill the window when the link is near the end
+        let start = Math.max(0, Math.min(focus - Math.floor(maxLength / 3), text.length - maxLength));
+        let end = Math.min(text.length, start + maxLength);
+
+        if (start > 0) {
+            const space = text.indexOf(' ', start);
+            start = space !== -1 && space < focus ? space + 1 : start;
+        }
+        if (end < text.length) {
+            const space = text.lastIndexOf(' ', end);
+            end = space > start ? space : end;
+        }
+
+        return (start > 0 ? ELLIPSIS : '') + text.substring(start, end).trim() + (end < text.length ? ELLIPSIS : '');
+    }
+}
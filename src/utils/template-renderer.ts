@@ -0,0 +1,186 @@
+import { moment } from 'obsidian';
+import { TemplateContext } from '../types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+export class TemplateRenderer {
+    private dateFormat: string;
+
+    constructor(dateFormat = 'YYYY-MM-DD') {
+        this.dateFormat = dateFormat;
+    }
+
+    /**
+     * Update the date format used to parse {{date}} before applying filters.
+     */
+    setDateFormat(format: string): void {
+        this.dateFormat = format;
+    }
+
+    /**
+     * Render a value template against a context.
+     * Templates that parse as a JSON object or array are rendered leaf by leaf,
+     * producing a typed object; anything else (including `[[...]]` links) is a string
+     * template. A string that is exactly one placeholder keeps the resolved value's type
+     * (e.g. a number from source frontmatter).
+     */
+    render(template: string, context: TemplateContext): any {
+        const json = TemplateRenderer.parseJsonTemplate(template);
+        if (json !== undefined) {
+            return this.renderValue(json, context);
+        }
+        return this.renderString(template, context);
+    }
+
+    /**
+     * Check template syntax, returning an error message or null if valid.
+     */
+    static validate(template: string): string | null {
+        const trimmed = template.trim();
+        if (!trimmed) {
+            return 'Value template is empty';
+        }
+
+        // Placeholders only live in strings; a JSON template's own braces aren't counted
+        const json = TemplateRenderer.parseJsonTemplate(trimmed);
+        const strings = json !== undefined ? TemplateRenderer.collectStrings(json) : [trimmed];
+
+        for (const value of strings) {
+            const leftover = value.replace(PLACEHOLDER_PATTERN, '');
+            if (leftover.includes('{{') || leftover.includes('}}')) {
+                return 'Value template has unbalanced {{ }} placeholders';
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * A template parsed as a JSON object or array, or undefined for a string template
+     */
+    private static parseJsonTemplate(template: string): any {
+        const trimmed = template.trim();
+        if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+            return undefined;
+        }
+        try {
+            const parsed = JSON.parse(trimmed);
+            return parsed !== null && typeof parsed === 'object' ? parsed : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Every string key and value in a parsed JSON template
+     */
+    private static collectStrings(value: any): string[] {
+        if (typeof value === 'string') {
+            return [value];
+        }
+        if (Array.isArray(value)) {
+            return value.flatMap(item => TemplateRenderer.collectStrings(item));
+        }
+        if (value && typeof value === 'object') {
+            return Object.keys(value).flatMap(key => [key, ...TemplateRenderer.collectStrings(value[key])]);
+        }
+        return [];
+    }
+
+    private renderValue(value: any, context: TemplateContext): any {
+        if (typeof value === 'string') {
+            return this.renderString(value, context);
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.renderValue(item, context));
+        }
+        if (value && typeof value === 'object') {
+            const result: Record<string, any> = {};
+            for (const key of Object.keys(value)) {
+                result[key] = this.renderValue(value[key], context);
+            }
+            return result;
+        }
+        return value;
+    }
+
+    private renderString(template: string, context: TemplateContext): any {
+        // Preserve the resolved type when the whole string is a single placeholder
+        const single = template.match(SINGLE_PLACEHOLDER_PATTERN);
+        if (single) {
+            const resolved = this.evaluate(single[1], context);
+            return resolved === undefined ? '' : resolved;
+        }
+
+        return template.replace(PLACEHOLDER_PATTERN, (_match, expression: string) => {
+            return this.stringify(this.evaluate(expression, context));
+        });
+    }
+
+    /**
+     * Evaluate "path | filter:arg | filter" against the context.
+     */
+    private evaluate(expression: string, context: TemplateContext): any {
+        const [path, ...filters] = expression.split('|').map(part => part.trim());
+        let value = this.resolvePath(path, context);
+
+        for (const filter of filters) {
+            value = this.applyFilter(filter, value);
+        }
+
+        return value;
+    }
+
+    private resolvePath(path: string, context: TemplateContext): any {
+        let current: any = context;
+        for (const segment of path.split('.')) {
+            if (current === null || current === undefined) {
+                return undefined;
+            }
+            current = current[segment];
+        }
+        return current;
+    }
+
+    private applyFilter(filter: string, value: any): any {
+        const separator = filter.indexOf(':');
+        const name = separator === -1 ? filter : filter.slice(0, separator).trim();
+        const arg = separator === -1 ? '' : this.unquote(filter.slice(separator + 1).trim());
+
+        switch (name) {
+            case 'format': {
+                if (value === undefined || value === null || value === '') return value;
+                const parsed = moment(value, [this.dateFormat, moment.ISO_8601], true);
+                const date = parsed.isValid() ? parsed : moment(value);
+                return date.isValid() ? date.format(arg || this.dateFormat) : value;
+            }
+            case 'upper':
+                return this.stringify(value).toUpperCase();
+            case 'lower':
+                return this.stringify(value).toLowerCase();
+            case 'link':
+                return value === undefined || value === null || value === '' ? value : `[[${this.stringify(value)}]]`;
+            case 'default':
+                return value === undefined || value === null || value === '' ? arg : value;
+            case 'join':
+                return Array.isArray(value) ? value.map(v => this.stringify(v)).join(arg || ', ') : value;
+            default:
+                return value;
+        }
+    }
+
+    private unquote(value: string): string {
+        if (value.length >= 2 && (value[0] === '"' || value[0] === '\'') && value[value.length - 1] === value[0]) {
+            return value.slice(1, -1);
+        }
+        return value;
+    }
+
+    private stringify(value: any): string {
+        if (value === undefined || value === null) return '';
+        if (Array.isArray(value)) return value.map(v => this.stringify(v)).join(', ');
+        if (typeof value === 'object') return JSON.stringify(value);
+        return String(value);
+    }
+}